@@ -0,0 +1,7 @@
+// Only used by jest, the build compiles with tsc
+module.exports = {
+  presets: [
+    ["@babel/preset-env", { targets: { node: "current" } }],
+    "@babel/preset-typescript",
+  ],
+};
@@ -1,11 +1,15 @@
 
 export let useSyncQueriesExternal: typeof import("./react-query-external-sync/useSyncQueriesExternal").useSyncQueriesExternal;
 export let setExpoCommandImplementations: typeof import("./react-query-external-sync/executeExpoCommand").setExpoCommandImplementations;
+export let setTransportCodec: typeof import("./react-query-external-sync/transportCodec").setTransportCodec;
+export let setErrorFactories: typeof import("./react-query-external-sync/errorFactories").setErrorFactories;
 // @ts-ignore process.env.NODE_ENV is defined by metro transform plugins
 if (process.env.NODE_ENV !== "production") {
   useSyncQueriesExternal =
     require("./react-query-external-sync/useSyncQueriesExternal").useSyncQueriesExternal;
     setExpoCommandImplementations = require('./react-query-external-sync/executeExpoCommand').setExpoCommandImplementations;
+    setTransportCodec = require('./react-query-external-sync/transportCodec').setTransportCodec;
+    setErrorFactories = require('./react-query-external-sync/errorFactories').setErrorFactories;
 } else {
   // In production, this becomes a no-op function
   useSyncQueriesExternal = () => ({
@@ -14,6 +18,10 @@ if (process.env.NODE_ENV !== "production") {
     disconnect: () => {},
     socket: null,
     users: [],
+    reconnectAttempt: 0,
+    nextReconnectAt: null,
   });
     setExpoCommandImplementations = () => {}
+    setTransportCodec = () => {}
+    setErrorFactories = () => {}
 }
@@ -0,0 +1,190 @@
+import { QueryClient } from "@tanstack/react-query";
+
+import { ActionResponder } from "../actionResults";
+import { executeMutationAction } from "../executeMutationAction";
+import { createRedaction } from "../redaction";
+import { MutationActionMessage } from "../types";
+
+function createResponder() {
+  const respond: ActionResponder = { success: jest.fn(), failure: jest.fn() };
+  return respond;
+}
+
+async function runMutation(
+  queryClient: QueryClient,
+  mutationFn: (variables: number) => Promise<number>,
+  variables: number
+) {
+  const mutation = queryClient
+    .getMutationCache()
+    .build(queryClient, { mutationFn, mutationKey: ["double"] });
+  await mutation.execute(variables).catch(() => undefined);
+  return mutation;
+}
+
+describe("executeMutationAction", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    // Failed actions are logged as errors even with logs disabled
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("retries a failed mutation in place with its variables", async () => {
+    let calls = 0;
+    const mutation = await runMutation(
+      queryClient,
+      async (value) => {
+        calls++;
+        if (calls === 1) {
+          throw new Error("offline");
+        }
+        return value * 2;
+      },
+      21
+    );
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-RETRY",
+        mutationId: mutation.mutationId,
+        actionId: "retry-1",
+        targetDeviceId: "device",
+      },
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.success).toHaveBeenCalledTimes(1);
+    expect(respond.success).toHaveBeenCalledWith({
+      resultMutationId: mutation.mutationId,
+      data: 42,
+    });
+    expect(mutation.state.status).toBe("success");
+  });
+
+  it("refuses to retry a mutation that did not fail", async () => {
+    const mutation = await runMutation(queryClient, async (value) => value, 1);
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-RETRY",
+        mutationId: mutation.mutationId,
+        actionId: "action-1",
+        targetDeviceId: "device",
+      },
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.failure).toHaveBeenCalledWith(
+      "handler-threw",
+      expect.stringContaining("Only failed mutations")
+    );
+  });
+
+  it("replays a finished mutation as a new mutation with new variables", async () => {
+    const mutation = await runMutation(
+      queryClient,
+      async (value) => value * 2,
+      1
+    );
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-REPLAY",
+        mutationId: mutation.mutationId,
+        actionId: "replay-1",
+        variables: 5,
+        targetDeviceId: "device",
+      },
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.success).toHaveBeenCalledWith({
+      resultMutationId: expect.any(Number),
+      data: 10,
+    });
+    const [[outcome]] = (respond.success as jest.Mock).mock.calls;
+    expect(outcome.resultMutationId).not.toBe(mutation.mutationId);
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(2);
+  });
+
+  it("removes a mutation from the cache", async () => {
+    const mutation = await runMutation(queryClient, async (value) => value, 1);
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-REMOVE",
+        mutationId: mutation.mutationId,
+        actionId: "action-1",
+        targetDeviceId: "device",
+      },
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.success).toHaveBeenCalledTimes(1);
+    expect(respond.failure).not.toHaveBeenCalled();
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(0);
+  });
+
+  it("reports an unknown mutation id as an error", async () => {
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-REMOVE",
+        mutationId: 999,
+        actionId: "action-1",
+        targetDeviceId: "device",
+      },
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.failure).toHaveBeenCalledWith(
+      "mutation-not-found",
+      "Mutation with id 999 not found"
+    );
+  });
+
+  it("reports an unknown action as unsupported", async () => {
+    const mutation = await runMutation(queryClient, async (value) => value, 1);
+    const respond = createResponder();
+
+    await executeMutationAction(
+      {
+        action: "ACTION-MUTATION-PAUSE",
+        mutationId: mutation.mutationId,
+        actionId: "action-1",
+        targetDeviceId: "device",
+      } as unknown as MutationActionMessage,
+      queryClient,
+      createRedaction(),
+      respond
+    );
+
+    expect(respond.failure).toHaveBeenCalledWith(
+      "unsupported-action",
+      "Unknown mutation action: ACTION-MUTATION-PAUSE"
+    );
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(1);
+  });
+});
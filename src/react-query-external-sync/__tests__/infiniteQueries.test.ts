@@ -0,0 +1,53 @@
+import { InfiniteData, QueryClient } from "@tanstack/react-query";
+
+import { getInfiniteQueryInfo } from "../infiniteQueries";
+import * as queryDataInfo from "../queryDataInfo";
+import { createRedaction } from "../redaction";
+
+describe("getInfiniteQueryInfo", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("reports page count, params and sizes", () => {
+    queryClient.setQueryData<InfiniteData<string[]>>(["feed"], {
+      pages: [["a"], ["b", "c"]],
+      pageParams: [0, new Date(0)],
+    });
+    const query = queryClient.getQueryCache().find({ queryKey: ["feed"] })!;
+
+    expect(getInfiniteQueryInfo(query, createRedaction())).toEqual({
+      pageCount: 2,
+      pageParams: [0, { $type: "Date", value: "1970-01-01T00:00:00.000Z" }],
+      pageSizes: [5, 9],
+    });
+  });
+
+  it("only encodes pages it has not seen yet", () => {
+    const firstPage = ["a"];
+    queryClient.setQueryData<InfiniteData<string[]>>(["feed"], {
+      pages: [firstPage],
+      pageParams: [0],
+    });
+    const query = queryClient.getQueryCache().find({ queryKey: ["feed"] })!;
+    getInfiniteQueryInfo(query, createRedaction());
+    const getEncodedSize = jest.spyOn(queryDataInfo, "getEncodedSize");
+
+    queryClient.setQueryData<InfiniteData<string[]>>(["feed"], {
+      pages: [firstPage, ["b"]],
+      pageParams: [0, 1],
+    });
+    getInfiniteQueryInfo(query, createRedaction());
+    getInfiniteQueryInfo(query, createRedaction());
+
+    expect(getEncodedSize).toHaveBeenCalledTimes(1);
+    expect(getEncodedSize).toHaveBeenCalledWith(["b"]);
+  });
+});
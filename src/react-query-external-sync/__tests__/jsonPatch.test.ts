@@ -0,0 +1,80 @@
+import { applyJsonPatch, assertPatchablePaths } from "../jsonPatch";
+import { createRedaction } from "../redaction";
+import { defaultTransportCodec } from "../transportCodec";
+
+const queryContext = { source: "query" as const, queryKey: ["user"] };
+
+/**
+ * The data as the dashboard receives it
+ */
+const toSent = (data: unknown, keyPaths: string[] = []) =>
+  defaultTransportCodec.encode(
+    createRedaction({ keyPaths }).redactValue(data, queryContext)
+  );
+
+describe("json patch", () => {
+  it("applies every operation or none", () => {
+    const data = { name: "ada", tags: ["a"] };
+
+    expect(
+      applyJsonPatch(data, [
+        { op: "replace", path: "/name", value: "grace" },
+        { op: "add", path: "/tags/-", value: "b" },
+      ])
+    ).toEqual({ name: "grace", tags: ["a", "b"] });
+    expect(() =>
+      applyJsonPatch(data, [
+        { op: "replace", path: "/name", value: "grace" },
+        { op: "test", path: "/tags/0", value: "b" },
+      ])
+    ).toThrow("JSON Patch operation 1 (test /tags/0) failed");
+    expect(data).toEqual({ name: "ada", tags: ["a"] });
+  });
+
+  it("rejects paths that touch a redacted value", () => {
+    const sent = toSent(
+      { name: "ada", password: "secret", tokens: { refresh: "r" } },
+      ["password", "tokens"]
+    );
+
+    expect(() =>
+      assertPatchablePaths(sent, [
+        { op: "test", path: "/password", value: "[REDACTED]" },
+      ])
+    ).toThrow('Path "/password" touches a redacted value');
+    expect(() =>
+      assertPatchablePaths(sent, [
+        { op: "copy", from: "/tokens/refresh", path: "/name" },
+      ])
+    ).toThrow('Path "/tokens/refresh" touches a redacted value');
+    expect(() =>
+      assertPatchablePaths(sent, [{ op: "replace", path: "/name", value: "grace" }])
+    ).not.toThrow();
+  });
+
+  it("rejects paths that go through an encoded value", () => {
+    const sent = toSent({
+      byId: new Map([["1", { name: "ada" }]]),
+      escaped: { $type: "user", name: "ada" },
+      updatedAt: new Date(0),
+    });
+
+    expect(() =>
+      assertPatchablePaths(sent, [
+        { op: "replace", path: "/byId/value/0/1/name", value: "grace" },
+      ])
+    ).toThrow('Path "/byId/value/0/1/name" goes through a value encoded as Map');
+    expect(() =>
+      assertPatchablePaths(sent, [
+        { op: "replace", path: "/escaped/value/name", value: "grace" },
+      ])
+    ).toThrow("goes through a value encoded as escaped");
+    // Encoded values can still be replaced as a whole
+    expect(() =>
+      assertPatchablePaths(sent, [
+        { op: "replace", path: "/updatedAt", value: { $type: "Date", value: "1970-01-02T00:00:00.000Z" } },
+        { op: "remove", path: "/byId" },
+      ])
+    ).not.toThrow();
+  });
+});
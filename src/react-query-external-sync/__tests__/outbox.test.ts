@@ -0,0 +1,154 @@
+import type { Socket } from "socket.io-client";
+
+import { createOutbox } from "../outbox";
+
+function createSocket(connected: boolean) {
+  const emitted: [event: string, message: unknown][] = [];
+  const socket = {
+    connected,
+    emit: (event: string, message: unknown) => {
+      emitted.push([event, message]);
+    },
+  } as unknown as Socket & { connected: boolean };
+  return { socket, emitted };
+}
+
+describe("createOutbox", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("emits right away while connected", () => {
+    const outbox = createOutbox();
+    const { socket, emitted } = createSocket(true);
+
+    outbox.emit(socket, "query-metrics", { id: 1 });
+
+    expect(emitted).toEqual([["query-metrics", { id: 1 }]]);
+    expect(outbox.flush(socket).flushed).toBe(0);
+  });
+
+  it("queues messages while disconnected and flushes them in order", () => {
+    const outbox = createOutbox();
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "mutation-sync", { id: 1 });
+    outbox.emit(socket, "query-metrics", { id: 2 });
+    expect(emitted).toEqual([]);
+
+    socket.connected = true;
+    // Nothing jumps the queue before it is flushed
+    outbox.emit(socket, "action-result", { id: 3 });
+    expect(emitted).toEqual([]);
+
+    expect(outbox.flush(socket)).toEqual({
+      flushed: 3,
+      droppedOverflow: 0,
+      droppedExpired: 0,
+      coalesced: 0,
+    });
+    expect(emitted).toEqual([
+      ["mutation-sync", { id: 1 }],
+      ["query-metrics", { id: 2 }],
+      ["action-result", { id: 3 }],
+    ]);
+  });
+
+  it("keeps every query snapshot and delta", () => {
+    const outbox = createOutbox();
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "query-sync", { clientId: "a", version: 1 });
+    outbox.emit(socket, "query-sync-delta", { clientId: "a", version: 2 });
+    outbox.emit(socket, "query-sync", { clientId: "a", version: 3 });
+
+    socket.connected = true;
+    expect(outbox.flush(socket).coalesced).toBe(0);
+    expect(emitted.map(([, message]) => message)).toEqual([
+      { clientId: "a", version: 1 },
+      { clientId: "a", version: 2 },
+      { clientId: "a", version: 3 },
+    ]);
+  });
+
+  it("keeps only the newest storage snapshot", () => {
+    const outbox = createOutbox();
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "async-storage-sync", { version: 1 });
+    outbox.emit(socket, "async-storage-sync", { version: 2 });
+
+    socket.connected = true;
+    expect(outbox.flush(socket).coalesced).toBe(1);
+    expect(emitted).toEqual([["async-storage-sync", { version: 2 }]]);
+  });
+
+  it("drops the oldest messages over the limit", () => {
+    const outbox = createOutbox({ maxMessages: 2 });
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "query-metrics", { id: 1 });
+    outbox.emit(socket, "query-metrics", { id: 2 });
+    outbox.emit(socket, "query-metrics", { id: 3 });
+
+    socket.connected = true;
+    expect(outbox.flush(socket)).toMatchObject({
+      flushed: 2,
+      droppedOverflow: 1,
+    });
+    expect(emitted.map(([, message]) => message)).toEqual([
+      { id: 2 },
+      { id: 3 },
+    ]);
+  });
+
+  it("drops messages older than maxAge", () => {
+    const outbox = createOutbox({ maxAge: 1000 });
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "query-metrics", { id: 1 });
+    jest.advanceTimersByTime(600);
+    outbox.emit(socket, "query-metrics", { id: 2 });
+    jest.advanceTimersByTime(600);
+
+    socket.connected = true;
+    expect(outbox.flush(socket)).toMatchObject({
+      flushed: 1,
+      droppedExpired: 1,
+    });
+    expect(emitted).toEqual([["query-metrics", { id: 2 }]]);
+  });
+
+  it("resets the counters after each flush", () => {
+    const outbox = createOutbox({ maxMessages: 1 });
+    const { socket } = createSocket(false);
+
+    outbox.emit(socket, "query-metrics", { id: 1 });
+    outbox.emit(socket, "query-metrics", { id: 2 });
+    socket.connected = true;
+    outbox.flush(socket);
+
+    expect(outbox.flush(socket)).toEqual({
+      flushed: 0,
+      droppedOverflow: 0,
+      droppedExpired: 0,
+      coalesced: 0,
+    });
+  });
+
+  it("forgets queued messages when cleared", () => {
+    const outbox = createOutbox();
+    const { socket, emitted } = createSocket(false);
+
+    outbox.emit(socket, "query-metrics", { id: 1 });
+    outbox.clear();
+
+    socket.connected = true;
+    expect(outbox.flush(socket).flushed).toBe(0);
+    expect(emitted).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { QueryClient, QueryObserver } from "@tanstack/react-query";
+
+import { getQueryDefaultsEditor } from "../queryDefaults";
+
+describe("getQueryDefaultsEditor", () => {
+  let queryClient: QueryClient;
+  let unsubscribes: (() => void)[];
+
+  const observe = (staleTime?: number) => {
+    const observer = new QueryObserver(queryClient, {
+      queryKey: ["todos", 1],
+      queryFn: async () => "todo",
+      ...(staleTime !== undefined && { staleTime }),
+    });
+    unsubscribes.push(observer.subscribe(() => undefined));
+    return observer;
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    unsubscribes = [];
+  });
+
+  afterEach(() => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+    queryClient.clear();
+  });
+
+  it("passes edited query defaults on to mounted observers", () => {
+    const fromDefaults = observe();
+    const fromApp = observe(5);
+
+    getQueryDefaultsEditor(queryClient).setQueryDefaults(["todos"], {
+      staleTime: 60000,
+    });
+
+    expect(fromDefaults.options.staleTime).toBe(60000);
+    expect(fromApp.options.staleTime).toBe(5);
+    expect(queryClient.getQueryDefaults(["todos", 2]).staleTime).toBe(60000);
+    expect(queryClient.getQueryDefaults(["users"]).staleTime).toBeUndefined();
+  });
+
+  it("passes edited default options on to mounted observers", () => {
+    const observer = observe();
+
+    getQueryDefaultsEditor(queryClient).setDefaultOptions({ retry: 0 });
+
+    expect(observer.options.retry).toBe(0);
+  });
+
+  it("leaves no defaults entry behind after a revert", () => {
+    queryClient.setQueryDefaults(["todos"], { gcTime: 1000 });
+    const observer = observe();
+    const editor = getQueryDefaultsEditor(queryClient);
+
+    editor.setQueryDefaults(["todos", 1], { staleTime: 60000 });
+    editor.setMutationDefaults(["save"], { retry: 2 });
+    expect(editor.getState().isModified).toBe(true);
+    editor.revert();
+
+    expect(observer.options.staleTime).toBeUndefined();
+    expect(queryClient.getQueryDefaults(["todos", 1])).toEqual({ gcTime: 1000 });
+    expect(queryClient.getMutationDefaults(["save"])).toEqual({});
+    const state = editor.getState([["todos", 1]]);
+    expect(state.isModified).toBe(false);
+    expect(state.queryDefaults).toEqual([
+      { queryKey: ["todos", 1], options: { gcTime: 1000 }, isModified: false },
+    ]);
+  });
+});
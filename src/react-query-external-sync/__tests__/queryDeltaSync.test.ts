@@ -0,0 +1,95 @@
+import { QueryClient } from "@tanstack/react-query";
+
+import { createQueryDeltaTracker, QueryDelta } from "../queryDeltaSync";
+import { createRedaction } from "../redaction";
+
+describe("createQueryDeltaTracker", () => {
+  let queryClient: QueryClient;
+  let deltas: QueryDelta[];
+  let unsubscribe: () => void;
+
+  const track = (shouldDehydrateQuery?: (queryHash: string) => boolean) => {
+    const tracker = createQueryDeltaTracker(
+      (delta) => deltas.push(delta),
+      () => ({
+        shouldDehydrateQuery: shouldDehydrateQuery
+          ? (query) => shouldDehydrateQuery(query.queryHash)
+          : undefined,
+        redaction: createRedaction(),
+      })
+    );
+    unsubscribe = queryClient.getQueryCache().subscribe(tracker.record);
+    return tracker;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queryClient = new QueryClient();
+    deltas = [];
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    queryClient.clear();
+    jest.useRealTimers();
+  });
+
+  it("coalesces the changes of a tick into one delta", () => {
+    track();
+    queryClient.setQueryData(["todos"], [1]);
+    queryClient.setQueryData(["todos"], [1, 2]);
+    jest.runAllTimers();
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0].added).toHaveLength(1);
+    expect(deltas[0].added[0].state.data).toEqual([1, 2]);
+    expect(deltas[0].updated).toHaveLength(0);
+  });
+
+  it("never sends a query added and removed within the same tick", () => {
+    track();
+    queryClient.setQueryData(["todos"], [1]);
+    queryClient.removeQueries({ queryKey: ["todos"] });
+    jest.runAllTimers();
+
+    expect(deltas).toHaveLength(0);
+  });
+
+  it("reports an excluded query as removed only once", () => {
+    let excluded = false;
+    track(() => !excluded);
+    queryClient.setQueryData(["todos"], [1]);
+    jest.runAllTimers();
+
+    excluded = true;
+    queryClient.setQueryData(["todos"], [1, 2]);
+    jest.runAllTimers();
+    queryClient.setQueryData(["todos"], [1, 2, 3]);
+    jest.runAllTimers();
+    queryClient.removeQueries({ queryKey: ["todos"] });
+    jest.runAllTimers();
+
+    expect(deltas).toHaveLength(2);
+    expect(deltas[1].removed).toEqual(['["todos"]']);
+  });
+
+  it("sends an excluded query again once it is included", () => {
+    let excluded = true;
+    track(() => !excluded);
+    queryClient.setQueryData(["todos"], [1]);
+    jest.runAllTimers();
+    queryClient.setQueryData(["todos"], [1, 2]);
+    jest.runAllTimers();
+    expect(deltas).toHaveLength(0);
+
+    excluded = false;
+    queryClient.setQueryData(["todos"], [1, 2, 3]);
+    jest.runAllTimers();
+    queryClient.removeQueries({ queryKey: ["todos"] });
+    jest.runAllTimers();
+
+    expect(deltas).toHaveLength(2);
+    expect(deltas[0].updated[0].state.data).toEqual([1, 2, 3]);
+    expect(deltas[1].removed).toEqual(['["todos"]']);
+  });
+});
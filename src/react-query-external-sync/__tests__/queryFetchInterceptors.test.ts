@@ -0,0 +1,83 @@
+import { QueryClient } from "@tanstack/react-query";
+
+import {
+  fetchWithoutInterceptors,
+  installQueryFetchInterceptors,
+} from "../queryFetchInterceptors";
+import { createQueryFreezeRegistry } from "../queryFreeze";
+import { createQueryMockRegistry } from "../queryMocks";
+
+describe("query fetch interceptors", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  const fetchTodos = () =>
+    queryClient.fetchQuery({ queryKey: ["todos"], queryFn: async () => "real" });
+
+  it("runs interceptors in order, freezing before mocking", async () => {
+    const freezes = createQueryFreezeRegistry();
+    const mocks = createQueryMockRegistry();
+    const uninstall = installQueryFetchInterceptors("default", queryClient, [
+      freezes.interceptor,
+      mocks.interceptor,
+    ]);
+
+    await fetchTodos();
+    mocks.setRule({ id: "mock", enabled: true, queryKey: ["todos"], data: "mocked" });
+    const query = queryClient.getQueryCache().find({ queryKey: ["todos"] })!;
+    await query.fetch();
+    expect(query.state.data).toBe("mocked");
+
+    freezes.freeze("default", query.queryHash);
+    mocks.setRule({ id: "mock", enabled: true, queryKey: ["todos"], data: "changed" });
+    await expect(query.fetch()).resolves.toBe("mocked");
+    expect(query.state.fetchStatus).toBe("idle");
+
+    freezes.unfreeze("default", query.queryHash);
+    await query.fetch();
+    expect(query.state.data).toBe("changed");
+    uninstall();
+  });
+
+  it("fetches around the interceptors when asked to", async () => {
+    const freezes = createQueryFreezeRegistry();
+    const uninstall = installQueryFetchInterceptors("default", queryClient, [
+      freezes.interceptor,
+    ]);
+    await fetchTodos();
+    const query = queryClient.getQueryCache().find({ queryKey: ["todos"] })!;
+    freezes.freeze("default", query.queryHash);
+
+    void fetchWithoutInterceptors(query, {
+      ...query.options,
+      queryFn: () => new Promise(() => undefined),
+    });
+
+    expect(query.state.fetchStatus).toBe("fetching");
+    uninstall();
+  });
+
+  it("restores the real fetch and queryFn when uninstalled", async () => {
+    const mocks = createQueryMockRegistry();
+    await fetchTodos();
+    const query = queryClient.getQueryCache().find({ queryKey: ["todos"] })!;
+    const realFetch = query.fetch;
+    const uninstall = installQueryFetchInterceptors("default", queryClient, [
+      mocks.interceptor,
+    ]);
+    expect(query.fetch).not.toBe(realFetch);
+
+    uninstall();
+
+    expect(query.fetch).toBe(realFetch);
+    await query.fetch();
+    expect(query.state.data).toBe("real");
+  });
+});
@@ -0,0 +1,80 @@
+import { QueryClient, QueryObserver } from "@tanstack/react-query";
+
+import { createQueryMetricsCollector, QueryMetricsCollector } from "../queryMetrics";
+
+describe("createQueryMetricsCollector fetch causes", () => {
+  let queryClient: QueryClient;
+  let metrics: QueryMetricsCollector;
+  let cleanups: (() => void)[];
+
+  const getCauses = () => metrics.getMetrics({ clientId: "default" })[0].fetchCauses;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queryClient = new QueryClient();
+    metrics = createQueryMetricsCollector();
+    cleanups = [
+      queryClient
+        .getQueryCache()
+        .subscribe((event) => metrics.record("default", event)),
+    ];
+  });
+
+  afterEach(() => {
+    cleanups.forEach((cleanup) => cleanup());
+    queryClient.clear();
+    jest.useRealTimers();
+  });
+
+  const observe = (refetchInterval?: number) => {
+    const observer = new QueryObserver(queryClient, {
+      queryKey: ["todos"],
+      queryFn: async () => [1],
+      refetchInterval,
+    });
+    cleanups.push(observer.subscribe(() => undefined));
+    return observer;
+  };
+
+  it("attributes the fetch of a mounting observer to the mount", async () => {
+    observe();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(getCauses()).toMatchObject({ mount: 1, other: 0 });
+  });
+
+  it("attributes later fetches of an interval observer to the interval", async () => {
+    observe(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    // React Query runs no intervals on the server, so the tick is fetched by hand
+    await queryClient.getQueryCache().find({ queryKey: ["todos"] })!.fetch();
+
+    expect(getCauses()).toMatchObject({ mount: 1, interval: 1 });
+  });
+
+  it("attributes dashboard refetches to manual", async () => {
+    observe();
+    await jest.advanceTimersByTimeAsync(1000);
+    const query = queryClient.getQueryCache().find({ queryKey: ["todos"] })!;
+
+    metrics.recordManualFetch("default", query.queryHash);
+    await query.fetch();
+    // Only the fetch that followed is manual
+    await jest.advanceTimersByTimeAsync(1000);
+    await queryClient.refetchQueries({ queryKey: ["todos"] });
+
+    expect(getCauses()).toMatchObject({ mount: 1, manual: 1, other: 1 });
+  });
+
+  it("attributes invalidation and focus refetches", async () => {
+    observe();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await queryClient.invalidateQueries({ queryKey: ["todos"] });
+    await jest.advanceTimersByTimeAsync(1000);
+    metrics.recordFocus();
+    await queryClient.refetchQueries({ queryKey: ["todos"] });
+
+    expect(getCauses()).toMatchObject({ mount: 1, invalidate: 1, focus: 1 });
+  });
+});
@@ -0,0 +1,208 @@
+import { QueryClient } from "@tanstack/react-query";
+
+import { Dehydrate, dehydrateQuery } from "../hydration";
+import { createRedaction, Redaction, REDACTED_VALUE } from "../redaction";
+import { defaultTransportCodec } from "../transportCodec";
+import { NetworkRequest } from "../types";
+
+const queryContext = { source: "query" as const, queryKey: ["user"] };
+
+class User {
+  constructor(public name: string, public password: string) {}
+}
+
+describe("redaction", () => {
+  let redaction: Redaction;
+
+  beforeEach(() => {
+    redaction = createRedaction();
+  });
+
+  it("redacts only sensitive headers by default", () => {
+    expect(
+      redaction.redactHeaders({ Authorization: "Bearer token", accept: "application/json" })
+    ).toEqual({ Authorization: REDACTED_VALUE, accept: "application/json" });
+    const data = { password: "secret" };
+    expect(redaction.redactValue(data, queryContext)).toBe(data);
+  });
+
+  it("matches bare keys at any depth, wildcards and regular expressions", () => {
+    redaction.configure({
+      keyPaths: ["password", "items.*.cardNumber", "profile.**.token", /secret/i],
+    });
+
+    expect(
+      redaction.redactValue(
+        {
+          password: "a",
+          nested: { password: "b" },
+          items: [{ cardNumber: "4242", label: "visa" }],
+          profile: { sessions: [{ token: "t" }] },
+          mySecretValue: "s",
+        },
+        queryContext
+      )
+    ).toEqual({
+      password: REDACTED_VALUE,
+      nested: { password: REDACTED_VALUE },
+      items: [{ cardNumber: REDACTED_VALUE, label: "visa" }],
+      profile: { sessions: [{ token: REDACTED_VALUE }] },
+      mySecretValue: REDACTED_VALUE,
+    });
+  });
+
+  it("redacts everything the transport codec sends", () => {
+    redaction.configure({ keyPaths: ["password"] });
+    const error = Object.assign(new Error("failed"), { password: "e" });
+    const value = {
+      user: new User("ada", "c"),
+      byId: new Map([["1", { password: "m" }]]),
+      all: new Set([{ password: "s" }]),
+      error,
+    };
+    const redacted = redaction.redactValue(value, queryContext) as typeof value;
+    const encoded = JSON.stringify(defaultTransportCodec.encode(redacted));
+
+    expect(encoded).not.toMatch(/"[cmse]"/);
+    expect(redacted.user).toBeInstanceOf(User);
+    expect(redacted.user.name).toBe("ada");
+    expect(redacted.byId.get("1")).toEqual({ password: REDACTED_VALUE });
+    expect(redacted.error).toBeInstanceOf(Error);
+    expect(redacted.error.message).toBe("failed");
+    // The original values are left untouched
+    expect(value.user.password).toBe("c");
+    expect(error.password).toBe("e");
+  });
+
+  it("keeps values without a match as they are", () => {
+    redaction.configure({ keyPaths: ["password"] });
+    const value = { list: [1, 2], date: new Date(0), user: new User("ada", "c") };
+    const redacted = redaction.redactValue({ value }, queryContext) as { value: typeof value };
+
+    expect(redacted.value.list).toBe(value.list);
+    expect(redacted.value.date).toBe(value.date);
+  });
+
+  it("handles circular references", () => {
+    redaction.configure({ keyPaths: ["password"] });
+    const value: Record<string, unknown> = { password: "a" };
+    value.self = value;
+    const redacted = redaction.redactValue(value, queryContext) as Record<string, unknown>;
+
+    expect(redacted.password).toBe(REDACTED_VALUE);
+    expect(redacted.self).toBe(redacted);
+  });
+
+  it("re-serializes JSON storage values only when something was redacted", () => {
+    redaction.configure({ keyPaths: ["password"], storageKeys: ["auth:*"] });
+    const untouched = '{"id": 12345678901234567890}';
+
+    expect(redaction.redactStorageValue("settings", untouched)).toBe(untouched);
+    expect(redaction.redactStorageValue("settings", '{"password":"a","id":1}')).toBe(
+      `{"password":"${REDACTED_VALUE}","id":1}`
+    );
+    expect(redaction.redactStorageValue("auth:token", "abc")).toBe(REDACTED_VALUE);
+    expect(redaction.redactStorageValue("plain", "not json")).toBe("not json");
+  });
+
+  it("redacts network headers and JSON bodies", () => {
+    redaction.configure({ keyPaths: ["password"] });
+    const request = {
+      type: "fetch",
+      url: "https://example.com/login",
+      headers: { authorization: "Bearer token" },
+      requestBody: '{"user":"ada","password":"a"}',
+    } as unknown as NetworkRequest;
+    const redacted = redaction.redactNetworkRequest(request) as typeof request & {
+      headers: Record<string, string>;
+      requestBody: string;
+    };
+
+    expect(redacted.headers.authorization).toBe(REDACTED_VALUE);
+    expect(JSON.parse(redacted.requestBody)).toEqual({
+      user: "ada",
+      password: REDACTED_VALUE,
+    });
+  });
+
+  it("runs custom redactors after the built-in rules", () => {
+    redaction.configure({
+      keyPaths: ["password"],
+      redactors: [
+        (value, context) =>
+          context.source === "query" ? { ...(value as object), seen: true } : value,
+      ],
+    });
+
+    expect(redaction.redactValue({ password: "a" }, queryContext)).toEqual({
+      password: REDACTED_VALUE,
+      seen: true,
+    });
+  });
+
+  it("redacts query errors and infinite query page params", () => {
+    redaction.configure({ keyPaths: ["token"] });
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(["feed"], {
+      pages: [["a"]],
+      pageParams: [{ cursor: 1, token: "p" }],
+    });
+    const query = queryClient.getQueryCache().find({ queryKey: ["feed"] })!;
+    query.setState({
+      error: Object.assign(new Error("failed"), { token: "e" }),
+      status: "error",
+    });
+    const encoded = JSON.stringify(dehydrateQuery(query, { redaction }));
+    queryClient.clear();
+
+    expect(encoded).not.toMatch(/"[pe]"/);
+    expect(encoded).toContain('"failed"');
+  });
+
+  it("keeps the rules of each instance apart", () => {
+    redaction.configure({ keyPaths: ["password"] });
+    const other = createRedaction({ keyPaths: ["token"] });
+    const value = { password: "a", token: "b" };
+
+    expect(redaction.redactValue(value, queryContext)).toEqual({
+      password: REDACTED_VALUE,
+      token: "b",
+    });
+    expect(other.redactValue(value, queryContext)).toEqual({
+      password: "a",
+      token: REDACTED_VALUE,
+    });
+  });
+
+  it("redacts keys, meta and fetch meta and leaves out stashed query options", async () => {
+    redaction.configure({ keyPaths: ["token"] });
+    const queryClient = new QueryClient();
+    const query = queryClient.getQueryCache().build(queryClient, {
+      queryKey: ["user", { token: "k" }],
+      meta: { token: "m", label: "user" },
+    });
+    query.setState({
+      data: "ada",
+      status: "success",
+      fetchMeta: {
+        __previousQueryOptions: { initialData: "i" },
+        token: "f",
+      } as never,
+    });
+    await queryClient
+      .getMutationCache()
+      .build(queryClient, {
+        mutationKey: ["login", { token: "l" }],
+        mutationFn: async () => "done",
+        meta: { token: "n" },
+      })
+      .execute(undefined);
+
+    const encoded = JSON.stringify(Dehydrate(queryClient, { redaction }));
+    queryClient.clear();
+
+    expect(encoded).not.toMatch(/"[kmifln]"/);
+    expect(encoded).not.toContain("__previousQueryOptions");
+    expect(encoded).toContain('"label":"user"');
+  });
+});
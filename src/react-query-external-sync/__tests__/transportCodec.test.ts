@@ -0,0 +1,110 @@
+import {
+  createTransportCodec,
+  CustomTransportType,
+  defaultTransportCodec,
+} from "../transportCodec";
+
+const roundTrip = (value: unknown) =>
+  defaultTransportCodec.decode(
+    JSON.parse(JSON.stringify(defaultTransportCodec.encode(value)))
+  );
+
+class Decimal {
+  constructor(public readonly digits: string) {}
+}
+
+const decimalType: CustomTransportType<Decimal> = {
+  name: "Decimal",
+  isApplicable: (value) => value instanceof Decimal,
+  serialize: (value) => value.digits,
+  deserialize: (value) => new Decimal(value as string),
+};
+
+describe("transport codec", () => {
+  it("leaves JSON values untouched", () => {
+    const value = { name: "todo", done: false, tags: ["a", "b"], count: 3, parent: null };
+    expect(defaultTransportCodec.encode(value)).toEqual(value);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("round trips values JSON cannot represent", () => {
+    const value = {
+      date: new Date("2024-01-02T03:04:05.000Z"),
+      map: new Map<unknown, unknown>([["key", 1], [2, new Set(["a"])]]),
+      set: new Set([1, 2]),
+      big: BigInt("12345678901234567890"),
+      missing: undefined,
+      nan: NaN,
+      infinity: -Infinity,
+      negativeZero: -0,
+      pattern: /todo/gi,
+      bytes: new Uint8Array([1, 2, 3]),
+    };
+    const decoded = roundTrip(value) as typeof value;
+
+    expect(decoded.date).toEqual(value.date);
+    expect(decoded.map).toEqual(value.map);
+    expect(decoded.set).toEqual(value.set);
+    expect(decoded.big).toBe(value.big);
+    expect("missing" in decoded).toBe(true);
+    expect(decoded.missing).toBeUndefined();
+    expect(decoded.nan).toBeNaN();
+    expect(decoded.infinity).toBe(-Infinity);
+    expect(Object.is(decoded.negativeZero, -0)).toBe(true);
+    expect(decoded.pattern).toEqual(/todo/gi);
+    expect(decoded.bytes).toEqual(value.bytes);
+  });
+
+  it("keeps the properties of errors", () => {
+    const error = Object.assign(new Error("Request failed"), { status: 404 });
+    const decoded = roundTrip(error) as Error & { status: number };
+
+    expect(decoded).toBeInstanceOf(Error);
+    expect(decoded.message).toBe("Request failed");
+    expect(decoded.status).toBe(404);
+  });
+
+  it("preserves repeated and circular references", () => {
+    const shared = { id: 1 };
+    const value: Record<string, unknown> = { first: shared, second: shared };
+    value.self = value;
+    const decoded = roundTrip(value) as Record<string, unknown>;
+
+    expect(decoded.first).toBe(decoded.second);
+    expect(decoded.self).toBe(decoded);
+  });
+
+  it("escapes objects that already use the tag key", () => {
+    const value = { $type: "Date", value: "not a date" };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("encodes custom types", () => {
+    const codec = createTransportCodec({ customTypes: [decimalType] });
+    const encoded = codec.encode({ price: new Decimal("1.10") });
+
+    expect(encoded).toEqual({ price: { $type: "Decimal", value: "1.10" } });
+    expect(codec.decode(encoded)).toEqual({ price: new Decimal("1.10") });
+  });
+
+  it("rejects custom values serialized with a reference to themselves", () => {
+    class Node {}
+    const nodeType: CustomTransportType<Node> = {
+      name: "Node",
+      isApplicable: (value) => value instanceof Node,
+      serialize: (value) => ({ self: value }),
+      deserialize: () => new Node(),
+    };
+    const codec = createTransportCodec({ customTypes: [nodeType, decimalType] });
+
+    expect(() => codec.encode({ node: new Node() })).toThrow(TypeError);
+    // Other references to a custom value are still decoded
+    const price = new Decimal("1.10");
+    const decoded = codec.decode(codec.encode({ price, total: price })) as {
+      price: Decimal;
+      total: Decimal;
+    };
+    expect(decoded.price).toEqual(price);
+    expect(decoded.total).toBe(decoded.price);
+  });
+});
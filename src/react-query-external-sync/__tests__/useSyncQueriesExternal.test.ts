@@ -0,0 +1,208 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+
+import { QueryClient } from "@tanstack/react-query";
+import { createElement } from "react";
+import { act, create, ReactTestRenderer } from "react-test-renderer";
+import { Server, Socket as ServerSocket } from "socket.io";
+
+import { ActionResultMessage, CacheSnapshot, CacheSnapshotMessage } from "../types";
+import { useSyncQueriesExternal } from "../useSyncQueriesExternal";
+
+const DEVICE_ID = "device-1";
+
+// Socket events update the hook's state outside of act
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: false });
+
+/**
+ * Wait until the condition holds, letting the socket and effects run
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("useSyncQueriesExternal", () => {
+  let io: Server;
+  let socketURL: string;
+  let devices: ServerSocket[];
+  let queryClient: QueryClient;
+  let renderer: ReactTestRenderer | undefined;
+  let hookOptions: Partial<Parameters<typeof useSyncQueriesExternal>[0]>;
+
+  const SyncQueries = () => {
+    useSyncQueriesExternal({
+      ...hookOptions,
+      queryClient,
+      deviceName: "Test device",
+      deviceId: DEVICE_ID,
+      socketURL,
+      platform: "web",
+      reconnection: { initialDelay: 10, jitter: 0 },
+    });
+    return null;
+  };
+
+  const sendDataUpdate = (device: ServerSocket, data: unknown) => {
+    const query = queryClient.getQueryCache().find({ queryKey: ["todos"] })!;
+    const message = {
+      queryHash: query.queryHash,
+      queryKey: query.queryKey,
+      data,
+      action: "ACTION-DATA-UPDATE",
+      targetDeviceId: DEVICE_ID,
+    };
+    return new Promise<ActionResultMessage>((resolve) =>
+      device.emit("query-action", message, resolve)
+    );
+  };
+
+  // The device socket is a singleton kept across tests, so is the server
+  beforeAll(async () => {
+    const httpServer = createServer();
+    io = new Server(httpServer);
+    devices = [];
+    io.on("connection", (device) => devices.push(device));
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    socketURL = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => io.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    queryClient = new QueryClient();
+    queryClient.setQueryData(["todos"], ["first"]);
+    hookOptions = {};
+  });
+
+  afterEach(async () => {
+    await act(async () => renderer?.unmount());
+    renderer = undefined;
+    queryClient.clear();
+    jest.restoreAllMocks();
+  });
+
+  const connectDevice = async () => {
+    await act(async () => {
+      renderer = create(createElement(SyncQueries));
+    });
+    await waitFor(() => devices.length > 0 && devices[devices.length - 1].connected);
+    return devices[devices.length - 1];
+  };
+
+  it("keeps handling query actions after reconnecting", async () => {
+    const device = await connectDevice();
+    const connections = devices.length;
+
+    await expect(sendDataUpdate(device, ["second"])).resolves.toMatchObject(
+      { status: "success" }
+    );
+
+    // The dashboard dropping the device makes it reconnect
+    device.disconnect();
+    await waitFor(
+      () => devices.length === connections + 1 && devices[connections].connected
+    );
+
+    await expect(sendDataUpdate(devices[connections], ["third"])).resolves.toMatchObject(
+      { status: "success" }
+    );
+    expect(queryClient.getQueryData(["todos"])).toEqual(["third"]);
+  });
+
+  it("answers a mutation action for an unknown client once", async () => {
+    const device = await connectDevice();
+    const results: ActionResultMessage[] = [];
+    const legacyResults: unknown[] = [];
+    device.on("action-result", (result: ActionResultMessage) => results.push(result));
+    device.on("mutation-action-result", (result: unknown) => legacyResults.push(result));
+
+    const ack = await new Promise<ActionResultMessage>((resolve) =>
+      device.emit(
+        "mutation-action",
+        {
+          action: "ACTION-MUTATION-REMOVE",
+          mutationId: 1,
+          actionId: "action-1",
+          clientId: "chat",
+          targetDeviceId: DEVICE_ID,
+        },
+        resolve
+      )
+    );
+    await waitFor(() => results.length === 1);
+
+    expect(ack).toMatchObject({ status: "error", reason: "query-client-not-found" });
+    expect(results[0]).toEqual(ack);
+    expect(legacyResults).toEqual([]);
+  });
+
+  it("keeps redacted values when restoring a snapshot", async () => {
+    const items = new Map([
+      ["auth-token", "token"],
+      ["theme", "dark"],
+    ]);
+    hookOptions = {
+      redaction: { keyPaths: ["password"], storageKeys: ["auth-*"] },
+      storage: {
+        getAllKeys: async () => Array.from(items.keys()),
+        getItem: async (key) => items.get(key) ?? null,
+        setItem: async (key, value) => {
+          items.set(key, value);
+        },
+        removeItem: async (key) => {
+          items.delete(key);
+        },
+        clear: async () => items.clear(),
+      },
+    };
+    queryClient.setQueryData(["user"], { name: "ada", password: "secret" });
+    const device = await connectDevice();
+    const snapshots: CacheSnapshot[] = [];
+    device.on("cache-snapshot", (message: CacheSnapshotMessage) =>
+      snapshots.push(message.snapshot)
+    );
+    const sendSnapshotAction = (message: Record<string, unknown>) =>
+      new Promise<ActionResultMessage>((resolve) =>
+        device.emit(
+          "cache-snapshot-action",
+          { ...message, includeStorage: true, targetDeviceId: DEVICE_ID },
+          resolve
+        )
+      );
+
+    await sendSnapshotAction({ action: "ACTION-SNAPSHOT-CAPTURE" });
+    await waitFor(() => snapshots.length === 1);
+    const userHash = queryClient.getQueryCache().find({ queryKey: ["user"] })!.queryHash;
+    expect(snapshots[0].redacted).toEqual({
+      queryHashes: [userHash],
+      storageKeys: ["auth-token"],
+    });
+
+    queryClient.setQueryData(["todos"], ["second"]);
+    queryClient.setQueryData(["user"], { name: "grace", password: "changed" });
+    items.set("auth-token", "changed");
+    items.set("theme", "light");
+
+    await expect(
+      sendSnapshotAction({ action: "ACTION-SNAPSHOT-RESTORE", snapshot: snapshots[0] })
+    ).resolves.toMatchObject({ status: "success" });
+    expect(queryClient.getQueryData(["todos"])).toEqual(["first"]);
+    expect(queryClient.getQueryData(["user"])).toEqual({
+      name: "grace",
+      password: "changed",
+    });
+    expect(Object.fromEntries(items)).toEqual({
+      "auth-token": "changed",
+      theme: "dark",
+    });
+  });
+});
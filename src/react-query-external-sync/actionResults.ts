@@ -0,0 +1,66 @@
+import { MessageEmitter } from "./outbox";
+import { ActionFailureReason, ActionResultMessage } from "./types";
+
+/**
+ * socket.io acknowledgement callback passed by the dashboard as the last emit argument
+ */
+export type ActionAck = (result: ActionResultMessage) => void;
+
+export interface ActionResponder {
+  success: (data?: unknown) => void;
+  failure: (reason: ActionFailureReason, error: string) => void;
+}
+
+interface CreateActionResponderProps {
+  socket: MessageEmitter;
+  deviceId: string;
+  event: string;
+  action: string;
+  actionId?: string;
+  ack?: unknown;
+}
+
+/**
+ * Reports the outcome of a dashboard action.
+ * The result goes to the acknowledgement callback if the dashboard passed one,
+ * and is emitted as `action-result` if the action carries an actionId.
+ * Only the first outcome is reported.
+ */
+export function createActionResponder({
+  socket,
+  deviceId,
+  event,
+  action,
+  actionId,
+  ack,
+}: CreateActionResponderProps): ActionResponder {
+  let responded = false;
+
+  const respond = (
+    outcome: Pick<ActionResultMessage, "status" | "reason" | "error" | "data">
+  ) => {
+    if (responded) {
+      return;
+    }
+    responded = true;
+    const resultMessage: ActionResultMessage = {
+      type: "action-result",
+      event,
+      action,
+      actionId,
+      ...outcome,
+      persistentDeviceId: deviceId,
+    };
+    if (typeof ack === "function") {
+      (ack as ActionAck)(resultMessage);
+    }
+    if (actionId !== undefined) {
+      socket.emit("action-result", resultMessage);
+    }
+  };
+
+  return {
+    success: (data) => respond({ status: "success", data }),
+    failure: (reason, error) => respond({ status: "error", reason, error }),
+  };
+}
@@ -0,0 +1,57 @@
+import { getTransportCodec } from "./transportCodec";
+import { QueryErrorDescription } from "./types";
+
+/**
+ * Builds an app-specific error, e.g. an instance of your API client's error class
+ */
+export type ErrorFactory = (description: QueryErrorDescription) => unknown;
+
+const DEFAULT_ERROR_MESSAGE = "Unknown error from devtools";
+
+let errorFactories: Record<string, ErrorFactory> = {};
+
+/**
+ * Register the factories the dashboard can refer to by id when triggering an error
+ *
+ * @example
+ * setErrorFactories({
+ *   api: ({ message, status, fields }) =>
+ *     new ApiError(message ?? "Request failed", status ?? 500, fields),
+ * });
+ */
+export const setErrorFactories = (factories: Record<string, ErrorFactory>): void => {
+  errorFactories = { ...factories };
+};
+
+/**
+ * Rebuild an error from the dashboard's description.
+ * A registered factory builds it when `factoryId` is set, otherwise a plain
+ * Error gets the name, message, status and transport-decoded fields.
+ */
+export function createErrorFromDescription(
+  description: QueryErrorDescription = {}
+): unknown {
+  const fields = getTransportCodec().decode(description.fields ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const decodedDescription: QueryErrorDescription = { ...description, fields };
+
+  if (description.factoryId !== undefined) {
+    const factory = errorFactories[description.factoryId];
+    if (!factory) {
+      throw new Error(`Error factory ${description.factoryId} is not registered`);
+    }
+    return factory(decodedDescription);
+  }
+
+  const error = new Error(description.message ?? DEFAULT_ERROR_MESSAGE);
+  if (description.name) {
+    error.name = description.name;
+  }
+  return Object.assign(
+    error,
+    description.status !== undefined && { status: description.status },
+    fields
+  );
+}
@@ -0,0 +1,55 @@
+import type { QueryClient } from "@tanstack/react-query";
+
+import { BulkQueryActionType, BulkQueryFilters } from "./types";
+import { log } from "./utils/logger";
+
+/**
+ * Run a query action on every query of the client matching the filters
+ *
+ * @param action The bulk action to perform
+ * @param filters Filters selecting the queries, every query when empty
+ * @param queryClient The query client owning the queries
+ * @param enableLogs Whether to enable logs
+ * @returns The queryHash of each affected query
+ */
+export function executeBulkQueryAction(
+  action: BulkQueryActionType,
+  filters: BulkQueryFilters,
+  queryClient: QueryClient,
+  enableLogs = false
+): string[] {
+  const logPrefix = `[BulkQueryAction]`;
+  // Collected up front since removing or resetting changes what matches
+  const queryHashes = queryClient
+    .getQueryCache()
+    .findAll(filters)
+    .map((query) => query.queryHash);
+
+  // Fetch errors surface in the queries themselves, only log them here
+  const logFetchError = (error: unknown) => {
+    log(`${logPrefix} ${action} fetch error: ${error}`, enableLogs, "error");
+  };
+
+  switch (action) {
+    case "ACTION-BULK-INVALIDATE":
+      queryClient.invalidateQueries(filters).catch(logFetchError);
+      break;
+    case "ACTION-BULK-REFETCH":
+      queryClient.refetchQueries(filters).catch(logFetchError);
+      break;
+    case "ACTION-BULK-RESET":
+      queryClient.resetQueries(filters).catch(logFetchError);
+      break;
+    case "ACTION-BULK-REMOVE":
+      queryClient.removeQueries(filters);
+      break;
+    case "ACTION-BULK-CANCEL":
+      queryClient.cancelQueries(filters).catch(logFetchError);
+      break;
+    default:
+      throw new Error(`Unknown bulk query action: ${action}`);
+  }
+
+  log(`${logPrefix} ${action} affected ${queryHashes.length} queries`, enableLogs);
+  return queryHashes;
+}
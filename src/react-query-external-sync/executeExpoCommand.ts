@@ -1,4 +1,4 @@
-import { Socket } from "socket.io-client";
+import { MessageEmitter } from "./outbox";
 import { ExpoCommand, ExpoCommandType, ExpoCommandResultMessage } from "./expoDevToolsTypes";
 import { log } from "./utils/logger";
 
@@ -6,13 +6,13 @@ import { log } from "./utils/logger";
  * Execute an Expo command based on the command type
  * 
  * @param command The command to execute
- * @param socket The socket connection to send the result back
+ * @param socket Where to send the result back, the socket or the outbox
  * @param deviceId The device ID
  * @param enableLogs Whether to enable logs
  */
 export const executeExpoCommand = async (
   command: ExpoCommand,
-  socket: Socket,
+  socket: MessageEmitter,
   deviceId: string,
   enableLogs = false
 ): Promise<void> => {
@@ -0,0 +1,152 @@
+import type { Mutation, QueryClient } from "@tanstack/react-query";
+
+import { getMutationVariablesOptions } from "./reactQueryCompat";
+import { Redaction } from "./redaction";
+import { getTransportCodec } from "./transportCodec";
+import { ActionResponder } from "./actionResults";
+import {
+  ActionFailureReason,
+  MutationActionMessage,
+  MutationActionOutcome,
+} from "./types";
+import { log } from "./utils/logger";
+
+/**
+ * Prepare the data a mutation resolved with for the result message
+ */
+function encodeResultData(
+  mutation: Mutation<unknown, unknown, unknown, unknown>,
+  data: unknown,
+  redaction: Redaction
+): unknown {
+  return getTransportCodec().encode(
+    redaction.redactValue(data, {
+      source: "mutation",
+      mutationKey: mutation.options.mutationKey,
+    })
+  );
+}
+
+/**
+ * Re-run a failed mutation in place with the variables it was called with
+ */
+async function retryMutation(
+  mutation: Mutation<unknown, unknown, unknown, unknown>,
+  redaction: Redaction
+): Promise<MutationActionOutcome> {
+  if (mutation.state.status !== "error") {
+    throw new Error(
+      `Only failed mutations can be retried (status: ${mutation.state.status})`
+    );
+  }
+  const data = await mutation.execute(mutation.state.variables);
+  return {
+    resultMutationId: mutation.mutationId,
+    data: encodeResultData(mutation, data, redaction),
+  };
+}
+
+/**
+ * Run a finished mutation again as a new mutation.
+ * The new mutation is built from the original options so mutation defaults
+ * registered with setMutationDefaults are applied to it as well.
+ */
+async function replayMutation(
+  queryClient: QueryClient,
+  mutation: Mutation<unknown, unknown, unknown, unknown>,
+  message: MutationActionMessage,
+  redaction: Redaction
+): Promise<MutationActionOutcome> {
+  if (mutation.state.status !== "success" && mutation.state.status !== "error") {
+    throw new Error(
+      `Only finished mutations can be replayed (status: ${mutation.state.status})`
+    );
+  }
+
+  const variables =
+    "variables" in message
+      ? getTransportCodec().decode(message.variables)
+      : mutation.state.variables;
+  const replay = queryClient
+    .getMutationCache()
+    .build(queryClient, {
+      ...mutation.options,
+      ...getMutationVariablesOptions(variables),
+    });
+  if (!replay.options.mutationFn) {
+    queryClient.getMutationCache().remove(replay);
+    throw new Error("No mutationFn found in the mutation options or defaults");
+  }
+
+  const data = await replay.execute(variables);
+  return {
+    resultMutationId: replay.mutationId,
+    data: encodeResultData(replay, data, redaction),
+  };
+}
+
+const MUTATION_ACTIONS: MutationActionMessage["action"][] = [
+  "ACTION-MUTATION-RETRY",
+  "ACTION-MUTATION-REPLAY",
+  "ACTION-MUTATION-REMOVE",
+];
+
+/**
+ * Execute a mutation action sent by the dashboard
+ *
+ * @param message The mutation action message
+ * @param queryClient The query client that owns the mutation
+ * @param redaction Redacts the data the mutation resolved with
+ * @param respond Reports the outcome to the dashboard
+ * @param enableLogs Whether to enable logs
+ */
+export const executeMutationAction = async (
+  message: MutationActionMessage,
+  queryClient: QueryClient,
+  redaction: Redaction,
+  respond: ActionResponder,
+  enableLogs = false
+): Promise<void> => {
+  const logPrefix = `[MutationAction]`;
+  const { action, mutationId } = message;
+  log(`${logPrefix} Executing ${action} for mutation ${mutationId}`, enableLogs);
+
+  const fail = (reason: ActionFailureReason, error: string) => {
+    respond.failure(reason, error);
+    log(`${logPrefix} Mutation action failed: ${action}`, enableLogs, "error");
+    log(`${logPrefix} Error: ${error}`, enableLogs, "error");
+  };
+
+  if (!MUTATION_ACTIONS.includes(action)) {
+    fail("unsupported-action", `Unknown mutation action: ${action}`);
+    return;
+  }
+  const mutation = queryClient
+    .getMutationCache()
+    .getAll()
+    .find((candidate) => candidate.mutationId === mutationId);
+  if (!mutation) {
+    fail("mutation-not-found", `Mutation with id ${mutationId} not found`);
+    return;
+  }
+
+  try {
+    let outcome: MutationActionOutcome = {};
+    switch (action) {
+      case "ACTION-MUTATION-RETRY":
+        outcome = await retryMutation(mutation, redaction);
+        break;
+      case "ACTION-MUTATION-REPLAY":
+        outcome = await replayMutation(queryClient, mutation, message, redaction);
+        break;
+      case "ACTION-MUTATION-REMOVE":
+        queryClient.getMutationCache().remove(mutation);
+        break;
+    }
+
+    respond.success(outcome);
+    log(`${logPrefix} Mutation action succeeded: ${action}`, enableLogs);
+  } catch (error) {
+    fail("handler-threw", error instanceof Error ? error.message : String(error));
+  }
+};
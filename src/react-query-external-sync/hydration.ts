@@ -1,39 +1,96 @@
+import { isServer } from "@tanstack/react-query";
 import type {
   DefaultError,
   Mutation,
+  MutationKey,
   MutationOptions,
+  MutationState,
   Query,
   QueryClient,
-  QueryFunction,
+  QueryKey,
+  QueryObserver,
   QueryOptions,
+  QueryState,
 } from "@tanstack/react-query";
 
+import { getInfiniteQueryInfo, isInfiniteQuery } from "./infiniteQueries";
+import {
+  fromClientOptions,
+  fromClientStatus,
+  getGcTime,
+  getRefetchIntervalArgs,
+  isSkipToken,
+  toClientOptions,
+  toClientStatus,
+} from "./reactQueryCompat";
+import { getQueryDataInfo } from "./queryDataInfo";
+import { Redaction, RedactionContext } from "./redaction";
+import { getTransportCodec } from "./transportCodec";
 import {
   DehydratedMutation,
   DehydratedQuery,
   DehydratedState,
+  ObserverOptionsSummary,
   ObserverState,
+  QueryDataInfo,
 } from "./types";
 type TransformerFn = (data: unknown) => unknown;
 
-export function Dehydrate(client: QueryClient): DehydratedState {
+export function Dehydrate(
+  client: QueryClient,
+  options: DehydrateContext
+): DehydratedState {
+  // Unlike React Query's dehydrate, everything is included by default so the
+  // dashboard can show queries and mutations in any state
+  const shouldDehydrateMutation =
+    options.shouldDehydrateMutation ?? (() => true);
+  const shouldDehydrateQuery = options.shouldDehydrateQuery ?? (() => true);
+
   const mutations = client
     .getMutationCache()
     .getAll()
-    .flatMap((mutation) => [dehydrateMutation(mutation)]);
+    .flatMap((mutation) =>
+      shouldDehydrateMutation(mutation)
+        ? [dehydrateMutation(mutation, options)]
+        : []
+    );
 
   const queries = client
     .getQueryCache()
     .getAll()
-    .flatMap((query) => [dehydrateQuery(query)]);
+    .flatMap((query) =>
+      shouldDehydrateQuery(query) ? [dehydrateQuery(query, options)] : []
+    );
 
   return { mutations, queries };
 }
 export interface DehydrateOptions {
+  /**
+   * Transform query data before it is sent to the dashboard
+   */
   serializeData?: TransformerFn;
   shouldDehydrateMutation?: (mutation: Mutation) => boolean;
   shouldDehydrateQuery?: (query: Query) => boolean;
+  /**
+   * Replace matching query and mutation errors with a generic "redacted" error
+   */
   shouldRedactErrors?: (error: unknown) => boolean;
+  /**
+   * Leave query data out of sync messages, sending only its size and hash.
+   * The dashboard fetches the data of a query on demand with request-query-data.
+   */
+  lazyData?: boolean;
+  /**
+   * Encoded size, in characters, above which query data is always left out of sync messages
+   */
+  maxInlineDataSize?: number;
+}
+
+/**
+ * Dehydrate options together with the redaction of the hook dehydrating
+ */
+export interface DehydrateContext extends DehydrateOptions {
+  redaction: Redaction;
 }
 
 export interface HydrateOptions {
@@ -44,37 +101,338 @@ export interface HydrateOptions {
   };
 }
 
-function dehydrateMutation(mutation: Mutation): DehydratedMutation {
+/**
+ * Restore a state produced by Dehydrate into the client, e.g. a cache snapshot.
+ *
+ * Unlike React Query's hydrate, the given state always replaces the state of an
+ * existing query, even if the query's data is newer, so a snapshot is restored
+ * exactly. In-flight fetches of replaced queries are cancelled.
+ *
+ * @returns The number of restored queries and mutations
+ */
+export function Hydrate(
+  client: QueryClient,
+  dehydratedState: DehydratedState,
+  options: HydrateOptions = {}
+): { queries: number; mutations: number } {
+  const codec = getTransportCodec();
+  const hydrateDefaults = client.getDefaultOptions().hydrate;
+  const deserializeData =
+    options.defaultOptions?.deserializeData ??
+    hydrateDefaults?.deserializeData ??
+    ((data: unknown) => data);
+
+  dehydratedState.mutations.forEach(
+    ({ mutationKey, state, gcTime, scope, meta }) => {
+      client.getMutationCache().build(
+        client,
+        toClientOptions({
+          ...hydrateDefaults?.mutations,
+          ...options.defaultOptions?.mutations,
+          mutationKey,
+          gcTime,
+          scope,
+          meta,
+        }),
+        toClientStatus(codec.decode(state) as MutationState)
+      );
+    }
+  );
+
+  dehydratedState.queries.forEach(({ queryKey, queryHash, state, meta }) => {
+    const decodedState = codec.decode(state) as QueryState;
+    const hydratedState: QueryState = toClientStatus({
+      ...decodedState,
+      data:
+        decodedState.data === undefined
+          ? undefined
+          : deserializeData(decodedState.data),
+      // A fetch cannot be restored, only its outcome
+      fetchStatus: "idle",
+    });
+
+    const query = client.getQueryCache().get(queryHash);
+    if (query) {
+      void query.cancel({ silent: true });
+      query.setState(hydratedState);
+      return;
+    }
+    client.getQueryCache().build(
+      client,
+      toClientOptions({
+        ...hydrateDefaults?.queries,
+        ...options.defaultOptions?.queries,
+        queryKey,
+        queryHash,
+        meta,
+      }),
+      hydratedState
+    );
+  });
+
+  return {
+    queries: dehydratedState.queries.length,
+    mutations: dehydratedState.mutations.length,
+  };
+}
+
+/**
+ * Where a mutation's payloads come from, for redactors
+ */
+export const getMutationRedactionContext = (
+  mutation: Mutation
+): RedactionContext => ({
+  source: "mutation",
+  mutationKey: mutation.options.mutationKey,
+});
+
+/**
+ * Where a query's payloads come from, for redactors
+ */
+export const getQueryRedactionContext = (query: Query): RedactionContext => ({
+  source: "query",
+  queryKey: query.queryKey,
+});
+
+/**
+ * A query key as sent to the dashboard, which finds queries by their hash
+ */
+export const redactQueryKey = (
+  queryKey: QueryKey,
+  redaction: Redaction
+): QueryKey =>
+  redaction.redactValue(queryKey, { source: "query", queryKey }) as QueryKey;
+
+/**
+ * A mutation key as sent to the dashboard, which finds mutations by their id
+ */
+export const redactMutationKey = (
+  mutationKey: MutationKey | undefined,
+  redaction: Redaction
+): MutationKey | undefined =>
+  redaction.redactValue(mutationKey, { source: "mutation", mutationKey }) as
+    | MutationKey
+    | undefined;
+
+/**
+ * The fetchMeta of a query without the options the trigger error and loading
+ * actions keep in it, which hold the whole query options including meta and initialData
+ */
+function redactFetchMeta(query: Query, redaction: Redaction): unknown {
+  const fetchMeta = query.state.fetchMeta as Record<string, unknown> | null;
+  if (!fetchMeta) {
+    return fetchMeta;
+  }
+  const { __previousQueryOptions, ...rest } = fetchMeta;
+  return redaction.redactValue(rest, getQueryRedactionContext(query));
+}
+
+/**
+ * Replace an error with a generic one when shouldRedactErrors matches it,
+ * otherwise redact its properties like any other payload
+ */
+export function redactError<TError>(
+  error: TError,
+  options: DehydrateContext,
+  context: RedactionContext
+): unknown {
+  if (error == null) {
+    return error;
+  }
+  if (options.shouldRedactErrors?.(error)) {
+    return new Error("redacted");
+  }
+  return options.redaction.redactValue(error, context);
+}
+
+/**
+ * Redact the user supplied parts of a mutation's state
+ */
+export function redactMutationPayload(
+  mutation: Mutation,
+  redaction: Redaction
+): Pick<MutationState, "variables" | "context" | "data"> {
+  const context = getMutationRedactionContext(mutation);
+  return {
+    variables: redaction.redactValue(mutation.state.variables, context),
+    context: redaction.redactValue(mutation.state.context, context),
+    data: redaction.redactValue(mutation.state.data, context),
+  };
+}
+
+function dehydrateMutation(
+  mutation: Mutation,
+  options: DehydrateContext
+): DehydratedMutation {
   return {
     mutationId: mutation.mutationId,
-    mutationKey: mutation.options.mutationKey,
-    state: mutation.state,
-    gcTime: mutation.gcTime,
+    mutationKey: redactMutationKey(mutation.options.mutationKey, options.redaction),
+    // Encoded so variables, data and errors survive JSON transport
+    // v4 fields are reported under their v5 names
+    state: getTransportCodec().encode({
+      ...fromClientStatus(mutation.state),
+      ...redactMutationPayload(mutation, options.redaction),
+      error: redactError(
+        mutation.state.error,
+        options,
+        getMutationRedactionContext(mutation)
+      ),
+      failureReason: redactError(
+        mutation.state.failureReason,
+        options,
+        getMutationRedactionContext(mutation)
+      ),
+    }) as MutationState,
+    gcTime: getGcTime(mutation),
     ...(mutation.options.scope && { scope: mutation.options.scope }),
-    ...(mutation.meta && { meta: mutation.meta }),
+    ...(mutation.meta && {
+      meta: options.redaction.redactValue(
+        mutation.meta,
+        getMutationRedactionContext(mutation)
+      ) as Record<string, unknown>,
+    }),
+  };
+}
+
+/**
+ * Resolve an option that may be a callback of the query, falling back when the callback throws
+ */
+function resolveQueryOption<TValue>(
+  option: TValue | ((...args: unknown[]) => TValue),
+  args: unknown[],
+  fallback: TValue
+): TValue {
+  if (typeof option !== "function") {
+    return option;
+  }
+  try {
+    return (option as (...args: unknown[]) => TValue)(...args);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Summarize the options of a query observer without its callbacks, which cannot be serialized
+ */
+function summarizeObserverOptions(
+  query: Query,
+  observer: QueryObserver
+): ObserverOptionsSummary {
+  const options = fromClientOptions(observer.options);
+  const { retry, throwOnError } = options;
+
+  return {
+    enabled:
+      !isSkipToken(options.queryFn) &&
+      resolveQueryOption(options.enabled ?? true, [query], true) !== false,
+    staleTime: resolveQueryOption(options.staleTime ?? 0, [query], 0),
+    refetchInterval:
+      resolveQueryOption(
+        options.refetchInterval,
+        getRefetchIntervalArgs(query),
+        false
+      ) ?? false,
+    refetchIntervalInBackground: options.refetchIntervalInBackground ?? false,
+    // Same default as React Query's retryer
+    retry:
+      typeof retry === "function" ? "function" : retry ?? (isServer ? 0 : 3),
+    hasSelect: options.select !== undefined,
+    hasPlaceholderData: options.placeholderData !== undefined,
+    suspense: options.suspense ?? false,
+    throwOnError:
+      typeof throwOnError === "function" ? "function" : throwOnError ?? false,
+  };
+}
+
+/**
+ * Query data as sent to the dashboard, after serializeData and redaction
+ */
+export function dehydrateQueryData(
+  query: Query,
+  options: DehydrateContext
+): unknown {
+  const serializeData = options.serializeData ?? ((data: unknown) => data);
+  return options.redaction.redactValue(
+    serializeData(query.state.data),
+    getQueryRedactionContext(query)
+  );
+}
+
+/**
+ * Size and hash of a query's data, and whether the data is left out of the state
+ */
+function getDataInfo(
+  query: Query,
+  options: DehydrateContext
+): QueryDataInfo | undefined {
+  const { lazyData, maxInlineDataSize } = options;
+  if (
+    query.state.data === undefined ||
+    (!lazyData && maxInlineDataSize === undefined)
+  ) {
+    return undefined;
+  }
+  const { size, hash } = getQueryDataInfo(query, () =>
+    dehydrateQueryData(query, options)
+  );
+  return {
+    size,
+    hash,
+    isLazy:
+      lazyData === true ||
+      (maxInlineDataSize !== undefined && size > maxInlineDataSize),
   };
 }
 
-function dehydrateQuery(query: Query): DehydratedQuery {
+export function dehydrateQuery(
+  query: Query,
+  options: DehydrateContext
+): DehydratedQuery {
+  const isInfinite = isInfiniteQuery(query);
+  const dataInfo = getDataInfo(query, options);
+  // v4 fields are reported under their v5 names
+  const { data, ...state } = fromClientStatus(query.state);
+
   // Extract observer states
   const observerStates: ObserverState[] = query.observers.map((observer) => ({
     queryHash: query.queryHash,
-    options: observer.options,
-    // Remove queryFn from observer options to prevent not being able to capture fetch action
-    queryFn: undefined as unknown as QueryFunction,
+    // Encoded so an Infinity staleTime survives JSON transport
+    options: getTransportCodec().encode(
+      summarizeObserverOptions(query, observer)
+    ) as ObserverOptionsSummary,
   }));
 
   return {
-    state: {
-      ...query.state,
-      ...(query.state.data !== undefined && {
-        data: query.state.data,
-      }),
-    },
-    queryKey: query.queryKey,
+    // Encoded so data and errors survive JSON transport
+    state: getTransportCodec().encode({
+      ...state,
+      fetchMeta: redactFetchMeta(query, options.redaction),
+      error: redactError(
+        query.state.error,
+        options,
+        getQueryRedactionContext(query)
+      ),
+      fetchFailureReason: redactError(
+        query.state.fetchFailureReason,
+        options,
+        getQueryRedactionContext(query)
+      ),
+      ...(data !== undefined &&
+        !dataInfo?.isLazy && { data: dehydrateQueryData(query, options) }),
+    }) as QueryState,
+    queryKey: redactQueryKey(query.queryKey, options.redaction),
     queryHash: query.queryHash,
-    gcTime: query.gcTime,
-    ...(query.meta && { meta: query.meta }),
+    gcTime: getGcTime(query),
+    ...(query.meta && {
+      meta: options.redaction.redactValue(
+        query.meta,
+        getQueryRedactionContext(query)
+      ) as Record<string, unknown>,
+    }),
+    ...(dataInfo && { dataInfo }),
     observers: observerStates,
+    isInfinite,
+    ...(isInfinite && { infinite: getInfiniteQueryInfo(query, options.redaction) }),
   };
 }
@@ -1,7 +1,12 @@
 // Export the main hooks
 export { useMySocket as useQuerySyncSocket } from "./useMySocket";
-export { useSyncQueriesExternal } from "./useSyncQueriesExternal";
+export { useSyncQueriesExternal, DEFAULT_QUERY_CLIENT_ID } from "./useSyncQueriesExternal";
 export type { NetworkMonitoringOptions, ExpoDevToolsOptions } from "./useSyncQueriesExternal";
+export type { DehydrateOptions, HydrateOptions } from "./hydration";
+export type { AppStateStatus } from "./platformUtils";
+export type { ReconnectionOptions } from "./reconnection";
+export type { OutboxOptions, MessageEmitter } from "./outbox";
+export type { ReactQueryMajorVersion } from "./reactQueryCompat";
 
 // Export network monitoring utilities
 export {
@@ -12,6 +17,35 @@ export {
   setupNetworkInterceptors
 } from "./sendNetworkRequest";
 
+// Export transport codec utilities
+export {
+  createTransportCodec,
+  defaultTransportCodec,
+  setTransportCodec
+} from "./transportCodec";
+export type {
+  TransportCodec,
+  CustomTransportType,
+  TaggedValue
+} from "./transportCodec";
+
+// Export error factory utilities
+export { setErrorFactories } from "./errorFactories";
+export type { ErrorFactory } from "./errorFactories";
+
+// Export redaction utilities
+export {
+  createRedaction,
+  REDACTED_VALUE,
+  DEFAULT_REDACTED_HEADERS
+} from "./redaction";
+export type {
+  Redaction,
+  RedactionOptions,
+  RedactionContext,
+  Redactor
+} from "./redaction";
+
 // Export Expo DevTools utilities
 export {
   executeExpoCommand,
@@ -37,3 +71,54 @@ export type {
   ExpoCommandResultMessage,
   ExpoDevToolsRequestMessage
 } from "./expoDevToolsTypes";
+
+// Export query and mutation sync types
+export type {
+  SyncMessage,
+  QuerySyncDeltaMessage,
+  ObserverState,
+  ObserverOptionsSummary,
+  InfiniteQueryInfo,
+  QueryDataInfo,
+  QueryDataRequestMessage,
+  QueryDataMessage,
+  OutboxFlushMessage,
+  MutationLifecycleStatus,
+  MutationLifecycleEvent,
+  MutationSyncMessage,
+  MutationActionType,
+  MutationActionMessage,
+  MutationActionOutcome,
+  QueryHistoryEventType,
+  QueryHistoryEntry,
+  QueryHistorySyncMessage,
+  QueryHistoryBacklogMessage,
+  QueryHistoryRequestMessage,
+  QueryFetchCause,
+  QueryMetrics,
+  QueryMetricsSyncMessage,
+  QueryMetricsRequestMessage,
+  QueryErrorDescription,
+  QueryMockRule,
+  QueryMockActionType,
+  QueryMockActionMessage,
+  QueryMocksSyncMessage,
+  QueryMocksRequestMessage,
+  AppStateSyncMessage,
+  JsonPatchOperation,
+  BulkQueryActionType,
+  BulkQueryFilters,
+  BulkQueryActionMessage,
+  QueryDefaultsState,
+  QueryDefaultsActionType,
+  QueryDefaultsActionMessage,
+  QueryDefaultsSyncMessage,
+  QueryDefaultsRequestMessage,
+  CacheSnapshot,
+  CacheSnapshotRedactions,
+  CacheSnapshotActionType,
+  CacheSnapshotActionMessage,
+  CacheSnapshotMessage,
+  ActionFailureReason,
+  ActionResultMessage
+} from "./types";
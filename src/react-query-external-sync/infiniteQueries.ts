@@ -0,0 +1,121 @@
+import type { InfiniteData, Query } from "@tanstack/react-query";
+
+import { getEncodedSize } from "./queryDataInfo";
+import { Redaction } from "./redaction";
+import { getTransportCodec } from "./transportCodec";
+import { InfiniteQueryInfo } from "./types";
+
+/**
+ * Whether data has the `{ pages, pageParams }` shape of an infinite query
+ */
+export function isInfiniteData(data: unknown): data is InfiniteData<unknown> {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+  const { pages, pageParams } = data as Partial<InfiniteData<unknown>>;
+  return (
+    Array.isArray(pages) &&
+    Array.isArray(pageParams) &&
+    pages.length === pageParams.length
+  );
+}
+
+/**
+ * Whether the query was built by useInfiniteQuery or fetchInfiniteQuery.
+ * Hydrated queries have no behavior until an observer uses them, so their data shape is checked too.
+ */
+export function isInfiniteQuery(query: Query): boolean {
+  return query.options.behavior !== undefined || isInfiniteData(query.state.data);
+}
+
+// Pages never change in place, so a page's size is reused for as long as the page is kept
+const pageSizeCache = new WeakMap<object, number>();
+
+/**
+ * Encoded size of a page, computed once per page object
+ */
+function getPageSize(page: unknown): number {
+  if (typeof page !== "object" || page === null) {
+    return getEncodedSize(page);
+  }
+  let size = pageSizeCache.get(page);
+  if (size === undefined) {
+    size = getEncodedSize(page);
+    pageSizeCache.set(page, size);
+  }
+  return size;
+}
+
+/**
+ * Page count, page params and page sizes of an infinite query.
+ * Only pages that were fetched or replaced since the last call are encoded.
+ */
+export function getInfiniteQueryInfo(
+  query: Query,
+  redaction: Redaction
+): InfiniteQueryInfo {
+  const data = isInfiniteData(query.state.data)
+    ? query.state.data
+    : { pages: [], pageParams: [] };
+  // Redacted at the same key paths as in the data, e.g. "pageParams.*.token"
+  const { pageParams } = redaction.redactValue(
+    { pageParams: data.pageParams },
+    { source: "query", queryKey: query.queryKey }
+  ) as Pick<InfiniteData<unknown>, "pageParams">;
+  return {
+    pageCount: data.pages.length,
+    // Encoded so params such as dates survive JSON transport
+    pageParams: pageParams.map((pageParam) =>
+      getTransportCodec().encode(pageParam)
+    ),
+    pageSizes: data.pages.map(getPageSize),
+  };
+}
+
+/**
+ * Fetch the page after the last one or before the first one, like
+ * fetchNextPage and fetchPreviousPage of an infinite query observer.
+ * Throws if the query cannot fetch pages.
+ */
+export function fetchInfiniteQueryPage(
+  query: Query,
+  direction: "forward" | "backward"
+): Promise<unknown> {
+  if (query.options.behavior === undefined) {
+    throw new Error(
+      `Query ${query.queryHash} has no infinite query options, mount it with useInfiniteQuery first`
+    );
+  }
+  return query.fetch(undefined, {
+    cancelRefetch: true,
+    meta: { fetchMore: { direction } },
+  });
+}
+
+/**
+ * Keep only the first page, so the next refetch starts over from it
+ */
+export function dropInfinitePages(
+  data: InfiniteData<unknown>
+): InfiniteData<unknown> {
+  return {
+    pages: data.pages.slice(0, 1),
+    pageParams: data.pageParams.slice(0, 1),
+  };
+}
+
+/**
+ * Replace a single page, leaving the other pages and every page param untouched
+ */
+export function updateInfinitePage(
+  data: InfiniteData<unknown>,
+  pageIndex: number,
+  page: unknown
+): InfiniteData<unknown> {
+  return {
+    pages: data.pages.map((current, index) =>
+      index === pageIndex ? page : current
+    ),
+    pageParams: data.pageParams,
+  };
+}
@@ -0,0 +1,264 @@
+import { REDACTED_VALUE } from "./redaction";
+import { isTaggedValue } from "./transportCodec";
+import { JsonPatchOperation } from "./types";
+
+type Container = Record<string, unknown> | unknown[];
+
+const ARRAY_INDEX = /^(0|[1-9][0-9]*)$/;
+
+const isContainer = (value: unknown): value is Container => {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Split an RFC 6901 JSON Pointer into its unescaped reference tokens
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+const formatPointer = (tokens: string[]) =>
+  tokens.map((token) => `/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+
+function getChild(container: Container, token: string, tokens: string[]): unknown {
+  if (Array.isArray(container)) {
+    if (!ARRAY_INDEX.test(token) || Number(token) >= container.length) {
+      throw new Error(`Path "${formatPointer(tokens)}" does not exist`);
+    }
+    return container[Number(token)];
+  }
+  if (!Object.prototype.hasOwnProperty.call(container, token)) {
+    throw new Error(`Path "${formatPointer(tokens)}" does not exist`);
+  }
+  return container[token];
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+  return tokens.reduce<unknown>((value, token, index) => {
+    const path = tokens.slice(0, index + 1);
+    if (!isContainer(value)) {
+      throw new Error(`Path "${formatPointer(path)}" does not exist`);
+    }
+    return getChild(value, token, path);
+  }, document);
+}
+
+/**
+ * Copy the containers along the path to the parent of the last token and
+ * let `change` modify that parent, leaving the original document untouched
+ */
+function updateParent(
+  document: unknown,
+  tokens: string[],
+  change: (parent: Container, token: string) => void
+): unknown {
+  const copy = (value: unknown, path: string[]): Container => {
+    if (!isContainer(value)) {
+      throw new Error(`Path "${formatPointer(path)}" does not exist`);
+    }
+    return Array.isArray(value) ? [...value] : { ...value };
+  };
+
+  const root = copy(document, []);
+  let parent = root;
+  tokens.slice(0, -1).forEach((token, index) => {
+    const path = tokens.slice(0, index + 1);
+    const child = copy(getChild(parent, token, path), path);
+    if (Array.isArray(parent)) {
+      parent[Number(token)] = child;
+    } else {
+      parent[token] = child;
+    }
+    parent = child;
+  });
+  change(parent, tokens[tokens.length - 1]);
+  return root;
+}
+
+function add(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) {
+    return value;
+  }
+  return updateParent(document, tokens, (parent, token) => {
+    if (!Array.isArray(parent)) {
+      parent[token] = value;
+      return;
+    }
+    if (token === "-") {
+      parent.push(value);
+      return;
+    }
+    if (!ARRAY_INDEX.test(token) || Number(token) > parent.length) {
+      throw new Error(`Path "${formatPointer(tokens)}" does not exist`);
+    }
+    parent.splice(Number(token), 0, value);
+  });
+}
+
+function remove(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error("The whole document cannot be removed");
+  }
+  return updateParent(document, tokens, (parent, token) => {
+    getChild(parent, token, tokens);
+    if (Array.isArray(parent)) {
+      parent.splice(Number(token), 1);
+    } else {
+      delete parent[token];
+    }
+  });
+}
+
+function replace(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) {
+    return value;
+  }
+  return updateParent(document, tokens, (parent, token) => {
+    getChild(parent, token, tokens);
+    if (Array.isArray(parent)) {
+      parent[Number(token)] = value;
+    } else {
+      parent[token] = value;
+    }
+  });
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isContainer(a) && isContainer(b) && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key])
+      )
+    );
+  }
+  return Object.is(a, b);
+}
+
+/**
+ * Check the paths of a patch against the data as the dashboard received it,
+ * after redaction and transport encoding. A path through a tagged node, such as
+ * the `value` of a Map, Set or escaped object, has no counterpart in the live
+ * data, and a redacted value does not show what it would test or change.
+ * Throws if an operation touches such a path.
+ */
+export function assertPatchablePaths(
+  sentDocument: unknown,
+  operations: JsonPatchOperation[]
+): void {
+  const assertPatchable = (pointer: string) => {
+    const tokens = parsePointer(pointer);
+    let value = sentDocument;
+    for (let index = 0; ; index++) {
+      if (value === REDACTED_VALUE) {
+        throw new Error(`Path "${pointer}" touches a redacted value`);
+      }
+      if (index === tokens.length || !isContainer(value)) {
+        return;
+      }
+      if (isTaggedValue(value)) {
+        throw new Error(
+          `Path "${pointer}" goes through a value encoded as ${value.$type}, patch the whole value instead`
+        );
+      }
+      const token = tokens[index];
+      if (Array.isArray(value)) {
+        value = ARRAY_INDEX.test(token) ? value[Number(token)] : undefined;
+      } else {
+        value = Object.prototype.hasOwnProperty.call(value, token) ? value[token] : undefined;
+      }
+    }
+  };
+
+  operations.forEach((operation, index) => {
+    try {
+      assertPatchable(operation.path);
+      if (operation.op === "move" || operation.op === "copy") {
+        assertPatchable(operation.from);
+      }
+    } catch (error) {
+      throw new Error(
+        `JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  });
+}
+
+/**
+ * Apply RFC 6902 JSON Patch operations to a document.
+ *
+ * The document is not modified: the containers along each changed path are
+ * copied, unchanged branches are shared with the original. The patch is
+ * atomic, if any operation fails an error is thrown and no result is produced.
+ */
+export function applyJsonPatch(
+  document: unknown,
+  operations: JsonPatchOperation[]
+): unknown {
+  return operations.reduce((result, operation, index) => {
+    try {
+      const tokens = parsePointer(operation.path);
+      switch (operation.op) {
+        case "add":
+          return add(result, tokens, operation.value);
+        case "remove":
+          return remove(result, tokens);
+        case "replace":
+          return replace(result, tokens, operation.value);
+        case "move": {
+          const from = parsePointer(operation.from);
+          if (
+            from.length < tokens.length &&
+            from.every((token, tokenIndex) => token === tokens[tokenIndex])
+          ) {
+            throw new Error("A value cannot be moved into one of its children");
+          }
+          const value = getValue(result, from);
+          return add(remove(result, from), tokens, value);
+        }
+        case "copy":
+          return add(result, tokens, getValue(result, parsePointer(operation.from)));
+        case "test":
+          if (!isEqual(getValue(result, tokens), operation.value)) {
+            throw new Error(`Value at "${operation.path}" does not match`);
+          }
+          return result;
+        default:
+          throw new Error(
+            `Unknown operation "${(operation as { op: unknown }).op}"`
+          );
+      }
+    } catch (error) {
+      throw new Error(
+        `JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }, document);
+}
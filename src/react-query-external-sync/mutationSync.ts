@@ -0,0 +1,79 @@
+import type { Mutation, MutationCacheNotifyEvent } from "@tanstack/react-query";
+
+import {
+  DehydrateContext,
+  getMutationRedactionContext,
+  redactError,
+  redactMutationKey,
+  redactMutationPayload,
+} from "./hydration";
+import { PENDING_STATUS } from "./reactQueryCompat";
+import { getTransportCodec } from "./transportCodec";
+import { MutationLifecycleEvent, MutationLifecycleStatus } from "./types";
+
+/**
+ * Build a timeline entry from the current state of a mutation
+ */
+function createLifecycleEvent(
+  mutation: Mutation,
+  status: MutationLifecycleStatus,
+  options: DehydrateContext
+): MutationLifecycleEvent {
+  const { state } = mutation;
+  const { variables, context, data } = redactMutationPayload(
+    mutation,
+    options.redaction
+  );
+  const { encode } = getTransportCodec();
+  const timestamp = Date.now();
+
+  return {
+    mutationId: mutation.mutationId,
+    mutationKey: redactMutationKey(mutation.options.mutationKey, options.redaction),
+    status,
+    variables: encode(variables),
+    context: encode(context),
+    ...(data !== undefined && { data: encode(data) }),
+    error: encode(
+      redactError(state.error, options, getMutationRedactionContext(mutation))
+    ),
+    failureCount: state.failureCount,
+    submittedAt: state.submittedAt,
+    timestamp,
+    ...(status !== "pending" && { duration: timestamp - state.submittedAt }),
+  };
+}
+
+/**
+ * Translate a mutation cache notify event into timeline entries.
+ *
+ * Only `updated` events with a `pending`, `success` or `error` action mark a
+ * lifecycle change; success and error are each followed by a `settled` entry,
+ * mirroring the `onSettled` callback of React Query. Mutations excluded by
+ * shouldDehydrateMutation produce no entries.
+ */
+export function getMutationLifecycleEvents(
+  event: MutationCacheNotifyEvent,
+  options: DehydrateContext
+): MutationLifecycleEvent[] {
+  if (event.type !== "updated") {
+    return [];
+  }
+  if (options.shouldDehydrateMutation?.(event.mutation) === false) {
+    return [];
+  }
+
+  switch (event.action.type) {
+    // "loading" in v4
+    case PENDING_STATUS:
+      return [createLifecycleEvent(event.mutation, "pending", options)];
+    case "success":
+    case "error":
+      return [
+        createLifecycleEvent(event.mutation, event.action.type, options),
+        createLifecycleEvent(event.mutation, "settled", options),
+      ];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,146 @@
+import { Socket } from "socket.io-client";
+
+/**
+ * Limits of the queue of messages emitted while disconnected
+ */
+export interface OutboxOptions {
+  /**
+   * Messages kept, the oldest are dropped first
+   * @default 500
+   */
+  maxMessages?: number;
+  /**
+   * Milliseconds a message is kept, older messages are dropped instead of sent
+   * @default 300000 (5 minutes)
+   */
+  maxAge?: number;
+}
+
+export const DEFAULT_OUTBOX_OPTIONS: Required<OutboxOptions> = {
+  maxMessages: 500,
+  maxAge: 5 * 60 * 1000,
+};
+
+/**
+ * Sends messages to the dashboard, what network interceptors and command handlers emit through
+ */
+export interface MessageEmitter {
+  emit: (event: string, message: unknown) => void;
+}
+
+/**
+ * Outcome of flushing the outbox
+ */
+export interface OutboxFlushResult {
+  flushed: number; // Messages sent
+  droppedOverflow: number; // Messages dropped because the outbox was full
+  droppedExpired: number; // Messages dropped because they were older than maxAge
+  coalesced: number; // Messages replaced by a newer message superseding them
+}
+
+export interface Outbox {
+  /**
+   * Emit a message right away when connected and nothing is queued, otherwise queue it
+   */
+  emit: (socket: Socket, event: string, message: unknown) => void;
+  /**
+   * Send the queued messages in order, returns what was sent and dropped since the last flush
+   */
+  flush: (socket: Socket) => OutboxFlushResult;
+  /**
+   * Drop every queued message without counting it
+   */
+  clear: () => void;
+}
+
+interface OutboxEntry {
+  event: string;
+  message: unknown;
+  queuedAt: number;
+  key?: string;
+}
+
+/**
+ * Messages a newer message makes pointless to send, keyed so they can be found in the queue.
+ * A storage snapshot contains everything the earlier storage snapshots did. Query cache
+ * changes are only tracked while connected, and the full query-sync sent after a
+ * reconnect replaces whatever query state reached the dashboard, so those are not coalesced.
+ */
+function getCoalescing(event: string): { key?: string; replaces: string[] } {
+  switch (event) {
+    case "async-storage-sync":
+      return { key: event, replaces: [event] };
+    default:
+      return { replaces: [] };
+  }
+}
+
+/**
+ * Queues messages emitted while the socket is disconnected and sends them in
+ * order once it connects again.
+ *
+ * socket.io buffers emits of a disconnected socket without any bound, so
+ * messages are only handed to the socket while it is connected.
+ */
+export function createOutbox(options: OutboxOptions = {}): Outbox {
+  const { maxMessages, maxAge } = { ...DEFAULT_OUTBOX_OPTIONS, ...options };
+  let queue: OutboxEntry[] = [];
+  let droppedOverflow = 0;
+  let droppedExpired = 0;
+  let coalesced = 0;
+
+  const dropExpired = (now: number) => {
+    const kept = queue.filter((entry) => now - entry.queuedAt <= maxAge);
+    droppedExpired += queue.length - kept.length;
+    queue = kept;
+  };
+
+  const enqueue = (event: string, message: unknown) => {
+    const now = Date.now();
+    dropExpired(now);
+    const { key, replaces } = getCoalescing(event);
+    if (replaces.length > 0) {
+      const kept = queue.filter(
+        (entry) => entry.key === undefined || !replaces.includes(entry.key)
+      );
+      coalesced += queue.length - kept.length;
+      queue = kept;
+    }
+    queue.push({ event, message, queuedAt: now, key });
+    if (queue.length > maxMessages) {
+      droppedOverflow += queue.length - maxMessages;
+      queue = queue.slice(queue.length - maxMessages);
+    }
+  };
+
+  const flush = (socket: Socket): OutboxFlushResult => {
+    dropExpired(Date.now());
+    const entries = queue;
+    queue = [];
+    entries.forEach(({ event, message }) => socket.emit(event, message));
+    const result = {
+      flushed: entries.length,
+      droppedOverflow,
+      droppedExpired,
+      coalesced,
+    };
+    droppedOverflow = 0;
+    droppedExpired = 0;
+    coalesced = 0;
+    return result;
+  };
+
+  return {
+    emit: (socket, event, message) => {
+      if (socket.connected && queue.length === 0) {
+        socket.emit(event, message);
+        return;
+      }
+      enqueue(event, message);
+    },
+    flush,
+    clear: () => {
+      queue = [];
+    },
+  };
+}
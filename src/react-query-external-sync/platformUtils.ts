@@ -67,6 +67,54 @@ export const getPlatformSpecificURL = (
   }
 };
 
+/**
+ * React Native AppState values
+ * @see https://reactnative.dev/docs/appstate
+ */
+export type AppStateStatus =
+  | "active" // Running in the foreground
+  | "background" // Running in the background
+  | "inactive" // Transitioning, e.g. iOS app switcher or incoming call
+  | "unknown" // Initial state on iOS
+  | "extension"; // Running as an iOS app extension
+
+interface AppStateModule {
+  currentState: AppStateStatus;
+  addEventListener: (
+    type: "change",
+    listener: (state: AppStateStatus) => void
+  ) => { remove: () => void };
+}
+
+const getAppStateModule = (): AppStateModule | null => {
+  if (!isReactNative()) {
+    return null;
+  }
+  try {
+    // Dynamic import to avoid bundling issues
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require("react-native").AppState ?? null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Current React Native AppState, null outside React Native
+ */
+export const getAppState = (): AppStateStatus | null =>
+  getAppStateModule()?.currentState ?? null;
+
+/**
+ * Listen for React Native AppState transitions, a no-op outside React Native
+ */
+export const subscribeToAppState = (
+  listener: (state: AppStateStatus) => void
+): (() => void) => {
+  const subscription = getAppStateModule()?.addEventListener("change", listener);
+  return () => subscription?.remove();
+};
+
 // Storage implementation
 export const getStorage = (): StorageInterface => {
   // Return user-defined storage if available
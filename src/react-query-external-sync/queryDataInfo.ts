@@ -0,0 +1,52 @@
+import type { Query } from "@tanstack/react-query";
+
+import { getTransportCodec } from "./transportCodec";
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex characters
+ */
+function hashString(value: string): string {
+  let hash = FNV_OFFSET_BASIS;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+const toJson = (value: unknown) =>
+  JSON.stringify(getTransportCodec().encode(value)) ?? "";
+
+/**
+ * Size of a value once encoded for transport, in characters
+ */
+export const getEncodedSize = (value: unknown) => toJson(value).length;
+
+// Query data never changes in place, so the info is reused until the data is replaced
+const dataInfoCache = new WeakMap<
+  Query,
+  { data: unknown; size: number; hash: string }
+>();
+
+/**
+ * Encoded size and content hash of the data of a query.
+ *
+ * @param query The query owning the data
+ * @param getPayload Returns the data as sent to the dashboard, only called when the data changed
+ */
+export function getQueryDataInfo(
+  query: Query,
+  getPayload: () => unknown
+): { size: number; hash: string } {
+  const cached = dataInfoCache.get(query);
+  if (cached && cached.data === query.state.data) {
+    return { size: cached.size, hash: cached.hash };
+  }
+  const json = toJson(getPayload());
+  const info = { size: json.length, hash: hashString(json) };
+  dataInfoCache.set(query, { data: query.state.data, ...info });
+  return info;
+}
@@ -0,0 +1,309 @@
+import type {
+  DefaultOptions,
+  MutationKey,
+  Query,
+  QueryClient,
+  QueryKey,
+} from "@tanstack/react-query";
+
+import {
+  fromClientOptions,
+  getClientOptionName,
+  hashQueryKey,
+  partialMatchKey,
+  toClientOptions,
+} from "./reactQueryCompat";
+import { getTransportCodec } from "./transportCodec";
+import { QueryDefaultsState } from "./types";
+
+/**
+ * Query options the dashboard can change; anything else it sends is ignored
+ */
+const EDITABLE_QUERY_OPTIONS = [
+  "staleTime",
+  "gcTime",
+  "retry",
+  "refetchInterval",
+  "refetchOnWindowFocus",
+  "refetchOnReconnect",
+  "refetchOnMount",
+  "networkMode",
+] as const;
+
+/**
+ * Mutation options the dashboard can change; anything else it sends is ignored
+ */
+const EDITABLE_MUTATION_OPTIONS = ["gcTime", "retry", "networkMode"] as const;
+
+type OptionValues = Record<string, unknown>;
+
+/**
+ * Pick the editable options, encoded so values such as Infinity or functions
+ * survive the trip to the dashboard
+ */
+const pickOptions = (
+  options: object | undefined,
+  keys: readonly string[]
+): OptionValues => {
+  const values = fromClientOptions((options ?? {}) as OptionValues);
+  const picked: OptionValues = {};
+  keys.forEach((key) => {
+    if (values[key] !== undefined) {
+      picked[key] = getTransportCodec().encode(values[key]);
+    }
+  });
+  return picked;
+};
+
+/**
+ * Decode options sent by the dashboard, dropping the ones that cannot be edited
+ */
+const decodeOptions = (
+  options: OptionValues | undefined,
+  keys: readonly string[]
+): OptionValues => {
+  const decoded: OptionValues = {};
+  Object.keys(options ?? {}).forEach((key) => {
+    if (keys.includes(key)) {
+      decoded[key] = getTransportCodec().decode(options?.[key]);
+    }
+  });
+  return toClientOptions(decoded);
+};
+
+export interface QueryDefaultsEditor {
+  /**
+   * Merge options into queryClient.getDefaultOptions()
+   */
+  setDefaultOptions: (queries?: OptionValues, mutations?: OptionValues) => void;
+  /**
+   * Merge options into the defaults of the query key, over its setQueryDefaults entries
+   */
+  setQueryDefaults: (queryKey: QueryKey, options: OptionValues) => void;
+  /**
+   * Merge options into the defaults of the mutation key, over its setMutationDefaults entries
+   */
+  setMutationDefaults: (mutationKey: MutationKey, options: OptionValues) => void;
+  /**
+   * Restore every value changed through this editor
+   */
+  revert: () => void;
+  /**
+   * Current defaults, including the entries of the given keys and of every edited key
+   */
+  getState: (queryKeys?: QueryKey[], mutationKeys?: MutationKey[]) => QueryDefaultsState;
+}
+
+const editors = new WeakMap<QueryClient, QueryDefaultsEditor>();
+
+type KeyedOptions<TKey> = { key: TKey; options: OptionValues };
+
+/**
+ * Options of the edits whose key is a prefix of the given key, in edit order
+ */
+const mergeEdits = <TKey extends QueryKey>(
+  edits: Map<string, KeyedOptions<TKey>>,
+  key: TKey | undefined
+): OptionValues =>
+  Array.from(edits.values()).reduce<OptionValues>(
+    (merged, edit) =>
+      key !== undefined && partialMatchKey(key, edit.key)
+        ? { ...merged, ...edit.options }
+        : merged,
+    {}
+  );
+
+/**
+ * Edits the defaults of a query client while remembering the original values.
+ *
+ * React Query has no way to read or delete a single setQueryDefaults entry, so
+ * edited query and mutation defaults are not stored as entries. They are
+ * merged over what getQueryDefaults and getMutationDefaults return instead,
+ * which a revert simply stops doing. Mounted observers of the affected queries
+ * are updated right away, without waiting for their component to render.
+ */
+function createQueryDefaultsEditor(queryClient: QueryClient): QueryDefaultsEditor {
+  let originalDefaultOptions: DefaultOptions | null = null;
+  const queryDefaultsEdits = new Map<string, KeyedOptions<QueryKey>>();
+  const mutationDefaultsEdits = new Map<string, KeyedOptions<MutationKey>>();
+  let restoreDefaultsGetters: (() => void) | null = null;
+
+  const patchDefaultsGetters = () => {
+    if (restoreDefaultsGetters) {
+      return;
+    }
+    const { getQueryDefaults, getMutationDefaults } = queryClient;
+    const editedGetQueryDefaults: QueryClient["getQueryDefaults"] = (queryKey) => ({
+      ...getQueryDefaults.call(queryClient, queryKey),
+      ...mergeEdits(queryDefaultsEdits, queryKey),
+    });
+    const editedGetMutationDefaults: QueryClient["getMutationDefaults"] = (
+      mutationKey
+    ) => ({
+      ...getMutationDefaults.call(queryClient, mutationKey),
+      ...mergeEdits(mutationDefaultsEdits, mutationKey),
+    });
+    queryClient.getQueryDefaults = editedGetQueryDefaults;
+    queryClient.getMutationDefaults = editedGetMutationDefaults;
+
+    restoreDefaultsGetters = () => {
+      if (queryClient.getQueryDefaults === editedGetQueryDefaults) {
+        queryClient.getQueryDefaults = getQueryDefaults;
+      }
+      if (queryClient.getMutationDefaults === editedGetMutationDefaults) {
+        queryClient.getMutationDefaults = getMutationDefaults;
+      }
+    };
+  };
+
+  /**
+   * Apply a change to the defaults and pass the options it changed on to the
+   * observers of the matching queries. An observer option still equal to the
+   * previous default is assumed to come from the defaults; other values were
+   * set by the app and are left alone.
+   */
+  const updateObservers = (queryKey: QueryKey | undefined, change: () => void) => {
+    const queries = queryClient
+      .getQueryCache()
+      .getAll()
+      .filter(
+        (query) =>
+          query.getObserversCount() > 0 &&
+          (queryKey === undefined || partialMatchKey(query.queryKey, queryKey))
+      );
+    const getDefaults = (query: Query) =>
+      queryClient.defaultQueryOptions({
+        queryKey: query.queryKey,
+      } as Parameters<QueryClient["defaultQueryOptions"]>[0]) as unknown as OptionValues;
+    const previousDefaults = queries.map(getDefaults);
+
+    change();
+
+    queries.forEach((query, index) => {
+      const defaults = getDefaults(query);
+      const previous = previousDefaults[index];
+      const changedNames = EDITABLE_QUERY_OPTIONS.map(getClientOptionName).filter(
+        (name) => defaults[name] !== previous[name]
+      );
+      query.observers.forEach((observer) => {
+        const options = observer.options as unknown as OptionValues;
+        const updates: OptionValues = {};
+        changedNames.forEach((name) => {
+          if (options[name] === previous[name]) {
+            updates[name] = defaults[name];
+          }
+        });
+        if (Object.keys(updates).length > 0) {
+          observer.setOptions({ ...observer.options, ...updates });
+        }
+      });
+    });
+  };
+
+  return {
+    setDefaultOptions: (queries, mutations) => {
+      updateObservers(undefined, () => {
+        const current = queryClient.getDefaultOptions();
+        originalDefaultOptions = originalDefaultOptions ?? current;
+        queryClient.setDefaultOptions({
+          ...current,
+          queries: {
+            ...current.queries,
+            ...decodeOptions(queries, EDITABLE_QUERY_OPTIONS),
+          },
+          mutations: {
+            ...current.mutations,
+            ...decodeOptions(mutations, EDITABLE_MUTATION_OPTIONS),
+          },
+        });
+      });
+    },
+    setQueryDefaults: (queryKey, options) => {
+      updateObservers(queryKey, () => {
+        patchDefaultsGetters();
+        const queryKeyHash = hashQueryKey(queryKey);
+        queryDefaultsEdits.set(queryKeyHash, {
+          key: queryKey,
+          options: {
+            ...queryDefaultsEdits.get(queryKeyHash)?.options,
+            ...decodeOptions(options, EDITABLE_QUERY_OPTIONS),
+          },
+        });
+      });
+    },
+    setMutationDefaults: (mutationKey, options) => {
+      patchDefaultsGetters();
+      const mutationKeyHash = hashQueryKey(mutationKey);
+      mutationDefaultsEdits.set(mutationKeyHash, {
+        key: mutationKey,
+        options: {
+          ...mutationDefaultsEdits.get(mutationKeyHash)?.options,
+          ...decodeOptions(options, EDITABLE_MUTATION_OPTIONS),
+        },
+      });
+    },
+    revert: () => {
+      updateObservers(undefined, () => {
+        if (originalDefaultOptions) {
+          queryClient.setDefaultOptions(originalDefaultOptions);
+          originalDefaultOptions = null;
+        }
+        queryDefaultsEdits.clear();
+        mutationDefaultsEdits.clear();
+        restoreDefaultsGetters?.();
+        restoreDefaultsGetters = null;
+      });
+    },
+    getState: (queryKeys = [], mutationKeys = []) => {
+      const defaultOptions = queryClient.getDefaultOptions();
+      const uniqueKeys = <TKey extends QueryKey>(keys: TKey[]) =>
+        Array.from(new Map(keys.map((key) => [hashQueryKey(key), key])).values());
+
+      return {
+        defaultOptions: {
+          queries: pickOptions(defaultOptions.queries, EDITABLE_QUERY_OPTIONS),
+          mutations: pickOptions(defaultOptions.mutations, EDITABLE_MUTATION_OPTIONS),
+        },
+        queryDefaults: uniqueKeys([
+          ...Array.from(queryDefaultsEdits.values()).map(({ key }) => key),
+          ...queryKeys,
+        ]).map((queryKey) => ({
+          queryKey,
+          options: pickOptions(
+            queryClient.getQueryDefaults(queryKey),
+            EDITABLE_QUERY_OPTIONS
+          ),
+          isModified: queryDefaultsEdits.has(hashQueryKey(queryKey)),
+        })),
+        mutationDefaults: uniqueKeys([
+          ...Array.from(mutationDefaultsEdits.values()).map(({ key }) => key),
+          ...mutationKeys,
+        ]).map((mutationKey) => ({
+          mutationKey,
+          options: pickOptions(
+            queryClient.getMutationDefaults(mutationKey),
+            EDITABLE_MUTATION_OPTIONS
+          ),
+          isModified: mutationDefaultsEdits.has(hashQueryKey(mutationKey)),
+        })),
+        isModified:
+          originalDefaultOptions !== null ||
+          queryDefaultsEdits.size > 0 ||
+          mutationDefaultsEdits.size > 0,
+      };
+    },
+  };
+}
+
+/**
+ * Get the defaults editor of a query client, kept for the client's lifetime so
+ * the original values can still be restored after the dashboard reconnects
+ */
+export function getQueryDefaultsEditor(queryClient: QueryClient): QueryDefaultsEditor {
+  let editor = editors.get(queryClient);
+  if (!editor) {
+    editor = createQueryDefaultsEditor(queryClient);
+    editors.set(queryClient, editor);
+  }
+  return editor;
+}
@@ -0,0 +1,147 @@
+import type { Query, QueryCacheNotifyEvent } from "@tanstack/react-query";
+
+import { DehydrateContext, dehydrateQuery } from "./hydration";
+import { createRedaction } from "./redaction";
+import { DehydratedQuery } from "./types";
+
+/**
+ * Changes collected between two flushes, ready to be sent to the dashboard
+ */
+export interface QueryDelta {
+  added: DehydratedQuery[];
+  updated: DehydratedQuery[];
+  removed: string[];
+}
+
+type PendingChange = {
+  kind: "added" | "updated" | "removed";
+  query: Query;
+};
+
+export interface QueryDeltaTracker {
+  /**
+   * Record a query cache notify event
+   */
+  record: (event: QueryCacheNotifyEvent) => void;
+  /**
+   * Drop every pending change, e.g. after a full snapshot was sent
+   */
+  reset: () => void;
+  /**
+   * Cancel any scheduled flush
+   */
+  dispose: () => void;
+}
+
+/**
+ * Collects query cache events and emits them as a single delta per tick.
+ *
+ * Changes are keyed by queryHash so a query that is added and updated several
+ * times before the flush is only dehydrated once, and a query that is added
+ * and removed within the same tick is never sent at all. Queries excluded by
+ * shouldDehydrateQuery are reported as removed once, until they are sent again.
+ *
+ * @param onFlush Called with the coalesced changes
+ * @param getDehydrateOptions Returns the options to dehydrate queries with
+ * @param flushDelay Milliseconds to wait before flushing pending changes
+ */
+export function createQueryDeltaTracker(
+  onFlush: (delta: QueryDelta) => void,
+  getDehydrateOptions: () => DehydrateContext = () => ({
+    redaction: createRedaction(),
+  }),
+  flushDelay = 0
+): QueryDeltaTracker {
+  const pending = new Map<string, PendingChange>();
+  // Hashes of excluded queries the dashboard no longer has, or never had
+  const excluded = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    if (pending.size === 0) {
+      return;
+    }
+
+    const dehydrateOptions = getDehydrateOptions();
+    const shouldDehydrateQuery =
+      dehydrateOptions.shouldDehydrateQuery ?? (() => true);
+
+    const delta: QueryDelta = { added: [], updated: [], removed: [] };
+    pending.forEach(({ kind, query }, queryHash) => {
+      if (kind === "removed") {
+        // An excluded query was already reported as removed
+        if (!excluded.delete(queryHash)) {
+          delta.removed.push(queryHash);
+        }
+      } else if (!shouldDehydrateQuery(query)) {
+        // The dashboard may still have this query from before it was excluded
+        if (kind === "updated" && !excluded.has(queryHash)) {
+          delta.removed.push(queryHash);
+        }
+        excluded.add(queryHash);
+      } else {
+        excluded.delete(queryHash);
+        delta[kind].push(dehydrateQuery(query, dehydrateOptions));
+      }
+    });
+    pending.clear();
+
+    if (
+      delta.added.length === 0 &&
+      delta.updated.length === 0 &&
+      delta.removed.length === 0
+    ) {
+      return;
+    }
+    onFlush(delta);
+  };
+
+  const record = (event: QueryCacheNotifyEvent) => {
+    // Observer results are derived from state we already sync
+    if (event.type === "observerResultsUpdated") {
+      return;
+    }
+
+    const { query } = event;
+    const previous = pending.get(query.queryHash);
+
+    if (event.type === "removed") {
+      if (previous?.kind === "added") {
+        // Dashboard never saw this query
+        pending.delete(query.queryHash);
+      } else {
+        pending.set(query.queryHash, { kind: "removed", query });
+      }
+    } else if (event.type === "added") {
+      // A query re-added after a pending removal may differ from what the
+      // dashboard has, so send it as an update instead
+      pending.set(query.queryHash, {
+        kind: previous?.kind === "removed" ? "updated" : "added",
+        query,
+      });
+    } else if (!previous || previous.kind === "removed") {
+      pending.set(query.queryHash, { kind: "updated", query });
+    } else {
+      pending.set(query.queryHash, { kind: previous.kind, query });
+    }
+
+    if (timer === null) {
+      timer = setTimeout(flush, flushDelay);
+    }
+  };
+
+  const reset = () => {
+    pending.clear();
+  };
+
+  const dispose = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pending.clear();
+  };
+
+  return { record, reset, dispose };
+}
@@ -0,0 +1,103 @@
+import type { QueryCacheNotifyEvent } from "@tanstack/react-query";
+
+import { QueryHistoryEntry } from "./types";
+
+export interface QueryEventHistory {
+  /**
+   * Record a query cache notify event of the given client
+   */
+  record: (clientId: string, event: QueryCacheNotifyEvent) => void;
+  /**
+   * Recorded entries, oldest first
+   */
+  getEntries: (filter?: { clientId?: string; queryHash?: string }) => QueryHistoryEntry[];
+  /**
+   * Listen for new entries, delivered in batches once per tick
+   */
+  subscribe: (listener: (entries: QueryHistoryEntry[]) => void) => () => void;
+  clear: () => void;
+}
+
+/**
+ * Keeps a bounded ring buffer of query cache events.
+ *
+ * Observer result updates are skipped since they fire on every render-relevant
+ * change and carry no information beyond the `updated` event that caused them.
+ *
+ * @param maxEntries Number of entries kept before the oldest are overwritten
+ */
+export function createQueryEventHistory(maxEntries = 500): QueryEventHistory {
+  const buffer: (QueryHistoryEntry | undefined)[] = new Array(maxEntries);
+  let nextIndex = 0;
+  let nextId = 1;
+  const listeners = new Set<(entries: QueryHistoryEntry[]) => void>();
+  let pendingEntries: QueryHistoryEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const entries = pendingEntries;
+    pendingEntries = [];
+    listeners.forEach((listener) => listener(entries));
+  };
+
+  const record = (clientId: string, event: QueryCacheNotifyEvent) => {
+    if (maxEntries <= 0 || event.type === "observerResultsUpdated") {
+      return;
+    }
+
+    const { query } = event;
+    const entry: QueryHistoryEntry = {
+      id: nextId++,
+      clientId,
+      queryHash: query.queryHash,
+      queryKey: query.queryKey,
+      type: event.type,
+      ...(event.type === "updated" && { actionType: event.action.type }),
+      status: query.state.status,
+      fetchStatus: query.state.fetchStatus,
+      observerCount: query.getObserversCount(),
+      timestamp: Date.now(),
+    };
+
+    buffer[nextIndex] = entry;
+    nextIndex = (nextIndex + 1) % maxEntries;
+
+    if (listeners.size > 0) {
+      pendingEntries.push(entry);
+      if (timer === null) {
+        timer = setTimeout(flush, 0);
+      }
+    }
+  };
+
+  const getEntries = (filter: { clientId?: string; queryHash?: string } = {}) => {
+    const ordered = [...buffer.slice(nextIndex), ...buffer.slice(0, nextIndex)];
+    return ordered.filter(
+      (entry): entry is QueryHistoryEntry =>
+        entry !== undefined &&
+        (filter.clientId === undefined || entry.clientId === filter.clientId) &&
+        (filter.queryHash === undefined || entry.queryHash === filter.queryHash)
+    );
+  };
+
+  const subscribe = (listener: (entries: QueryHistoryEntry[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+        pendingEntries = [];
+      }
+    };
+  };
+
+  const clear = () => {
+    buffer.fill(undefined);
+    nextIndex = 0;
+    pendingEntries = [];
+  };
+
+  return { record, getEntries, subscribe, clear };
+}
@@ -0,0 +1,103 @@
+import type { Query, QueryClient } from "@tanstack/react-query";
+
+export type QueryFetch = Query["fetch"];
+
+/**
+ * Takes part in every fetch of the queries of a client
+ */
+export interface QueryFetchInterceptor {
+  /**
+   * Handle a fetch of a query, calling next to pass it on to the following
+   * interceptor and eventually to the real `Query.fetch`
+   */
+  intercept: (
+    clientId: string,
+    query: Query,
+    next: QueryFetch,
+    options?: Parameters<QueryFetch>[0],
+    fetchOptions?: Parameters<QueryFetch>[1]
+  ) => ReturnType<QueryFetch>;
+  /**
+   * Undo what intercepting left on the query, called when the interceptors are removed
+   */
+  restore?: (query: Query) => void;
+}
+
+// The fetch each query had before it was wrapped
+const realFetches = new WeakMap<Query, QueryFetch>();
+
+/**
+ * Route every fetch of the client's queries through the interceptors until the
+ * returned function is called.
+ *
+ * Every fetch goes through `Query.fetch`, whether it comes from an
+ * invalidation, a window focus, a reconnect, a refetch interval or an observer
+ * mounting, so each query's `fetch` is wrapped once. The interceptors run in
+ * the given order: the first one sees the fetch first and can stop it before
+ * the others do.
+ */
+export function installQueryFetchInterceptors(
+  clientId: string,
+  queryClient: QueryClient,
+  interceptors: QueryFetchInterceptor[]
+): () => void {
+  const patchQuery = (query: Query) => {
+    const originalFetch = query.fetch;
+    const runFrom =
+      (index: number): QueryFetch =>
+      (options, fetchOptions) =>
+        index === interceptors.length
+          ? originalFetch.call(query, options, fetchOptions)
+          : interceptors[index].intercept(
+              clientId,
+              query,
+              runFrom(index + 1),
+              options,
+              fetchOptions
+            );
+    const interceptedFetch = runFrom(0);
+    query.fetch = interceptedFetch;
+    realFetches.set(query, originalFetch);
+
+    return () => {
+      if (query.fetch === interceptedFetch) {
+        query.fetch = originalFetch;
+        realFetches.delete(query);
+      }
+      interceptors.forEach((interceptor) => interceptor.restore?.(query));
+    };
+  };
+
+  const queryCache = queryClient.getQueryCache();
+  const restores = new Map<Query, () => void>();
+
+  queryCache.getAll().forEach((query) => {
+    restores.set(query, patchQuery(query));
+  });
+  const unsubscribeCache = queryCache.subscribe((event) => {
+    if (event.type === "added" && !restores.has(event.query)) {
+      restores.set(event.query, patchQuery(event.query));
+    } else if (event.type === "removed") {
+      restores.delete(event.query);
+    }
+  });
+
+  return () => {
+    unsubscribeCache();
+    restores.forEach((restore) => restore());
+    restores.clear();
+  };
+}
+
+/**
+ * Fetch a query without going through the interceptors, for fetches the
+ * dashboard shapes itself such as the never-resolving fetch of ACTION-TRIGGER-LOADING
+ */
+export function fetchWithoutInterceptors(
+  query: Query,
+  options?: Parameters<QueryFetch>[0],
+  fetchOptions?: Parameters<QueryFetch>[1]
+): ReturnType<QueryFetch> {
+  const fetch = realFetches.get(query) ?? query.fetch;
+  return fetch.call(query, options, fetchOptions);
+}
@@ -0,0 +1,58 @@
+import { QueryFetchInterceptor } from "./queryFetchInterceptors";
+import { DehydratedQuery } from "./types";
+
+export interface QueryFreezeRegistry {
+  /**
+   * Keep the query's current data and block its fetches until it is unfrozen
+   */
+  freeze: (clientId: string, queryHash: string) => void;
+  /**
+   * Let the query fetch again, returns false if it was not frozen
+   */
+  unfreeze: (clientId: string, queryHash: string) => boolean;
+  /**
+   * Add frozenAt to the dehydrated queries of the client that are frozen
+   */
+  annotate: (clientId: string, queries: DehydratedQuery[]) => DehydratedQuery[];
+  /**
+   * Blocks fetches of frozen queries
+   */
+  interceptor: QueryFetchInterceptor;
+}
+
+/**
+ * Keeps the queries frozen by the dashboard and blocks their fetches.
+ *
+ * A frozen fetch resolves with the current data without changing the query's
+ * state. Queries are frozen by hash, so a query removed from the cache is
+ * still frozen when it is built again.
+ */
+export function createQueryFreezeRegistry(): QueryFreezeRegistry {
+  const frozen = new Map<string, number>();
+
+  const frozenKey = (clientId: string, queryHash: string) =>
+    `${clientId}:${queryHash}`;
+
+  return {
+    freeze: (clientId, queryHash) => {
+      const key = frozenKey(clientId, queryHash);
+      if (!frozen.has(key)) {
+        frozen.set(key, Date.now());
+      }
+    },
+    unfreeze: (clientId, queryHash) => frozen.delete(frozenKey(clientId, queryHash)),
+    annotate: (clientId, queries) =>
+      frozen.size === 0
+        ? queries
+        : queries.map((query) => {
+            const frozenAt = frozen.get(frozenKey(clientId, query.queryHash));
+            return frozenAt === undefined ? query : { ...query, frozenAt };
+          }),
+    interceptor: {
+      intercept: (clientId, query, next, options, fetchOptions) =>
+        frozen.has(frozenKey(clientId, query.queryHash))
+          ? Promise.resolve(query.state.data)
+          : next(options, fetchOptions),
+    },
+  };
+}
@@ -0,0 +1,366 @@
+import type { Query, QueryCacheNotifyEvent } from "@tanstack/react-query";
+
+import { getRefetchIntervalArgs } from "./reactQueryCompat";
+import { QueryFetchCause, QueryMetrics } from "./types";
+
+/**
+ * Fetches starting this soon after a focus, reconnect, dashboard refetch or
+ * observer mount are attributed to it.
+ * React Query refetches asynchronously after resuming paused mutations, so the
+ * fetches cannot be matched to the event synchronously.
+ */
+const CAUSE_ATTRIBUTION_WINDOW_MS = 100;
+// Fetch durations kept per query for the p95
+const MAX_DURATION_SAMPLES = 100;
+// Observer count changes kept per query
+const MAX_OBSERVER_SAMPLES = 50;
+
+interface QueryMetricsRecord {
+  clientId: string;
+  query: Query;
+  fetchCount: number;
+  successCount: number;
+  errorCount: number;
+  totalFetchDuration: number;
+  durations: number[];
+  fetchStartedAt: number | null;
+  invalidatedAt: number | null;
+  observerAddedAt: number;
+  staleDuration: number;
+  staleAccountedUntil: number;
+  maxObserverCount: number;
+  observerCountSamples: { timestamp: number; count: number }[];
+  fetchCauses: Record<QueryFetchCause, number>;
+}
+
+export interface QueryMetricsCollector {
+  /**
+   * Record a query cache notify event of the given client
+   */
+  record: (clientId: string, event: QueryCacheNotifyEvent) => void;
+  /**
+   * Note that the app regained focus, so the following fetches count as focus refetches
+   */
+  recordFocus: () => void;
+  /**
+   * Note that the device came back online, so the following fetches count as reconnect refetches
+   */
+  recordReconnect: () => void;
+  /**
+   * Note that the dashboard is about to fetch the query, so the fetch counts as manual
+   */
+  recordManualFetch: (clientId: string, queryHash: string) => void;
+  getMetrics: (filter?: { clientId?: string; queryHash?: string }) => QueryMetrics[];
+  /**
+   * Listen for metrics of queries whose fetch finished, delivered in batches once per tick
+   */
+  subscribe: (listener: (metrics: QueryMetrics[]) => void) => () => void;
+}
+
+/**
+ * Whether an observer of the query refetches it on an interval
+ */
+function hasRefetchInterval(query: Query): boolean {
+  return query.observers.some((observer) => {
+    const { refetchInterval } = observer.options;
+    const resolved =
+      typeof refetchInterval === "function"
+        ? (refetchInterval as (...args: unknown[]) => unknown)(
+            ...getRefetchIntervalArgs(query)
+          )
+        : refetchInterval;
+    return typeof resolved === "number" && resolved > 0;
+  });
+}
+
+/**
+ * Smallest stale time of the query's observers, since the first observer to
+ * consider the data stale makes the query refetch
+ */
+function getStaleTime(query: Query): number {
+  const staleTimes = query.observers.map((observer) => {
+    const { staleTime } = observer.options;
+    const resolved =
+      typeof staleTime === "function" ? staleTime(query as never) : staleTime;
+    return typeof resolved === "number" ? resolved : Infinity;
+  });
+  return staleTimes.length > 0 ? Math.min(...staleTimes) : 0;
+}
+
+function getStaleSince(record: QueryMetricsRecord): number {
+  const { state } = record.query;
+  if (state.data === undefined) {
+    return Infinity;
+  }
+  return Math.min(
+    record.invalidatedAt ?? Infinity,
+    state.dataUpdatedAt + getStaleTime(record.query)
+  );
+}
+
+function percentile(values: number[], ratio: number): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(ratio * sorted.length) - 1)];
+}
+
+function toQueryMetrics(record: QueryMetricsRecord, now: number): QueryMetrics {
+  const finishedCount = record.successCount + record.errorCount;
+  // Include the time the current data has been stale without a refetch
+  const currentStaleDuration =
+    record.fetchStartedAt === null
+      ? Math.max(0, now - Math.max(getStaleSince(record), record.staleAccountedUntil))
+      : 0;
+
+  return {
+    clientId: record.clientId,
+    queryHash: record.query.queryHash,
+    queryKey: record.query.queryKey,
+    fetchCount: record.fetchCount,
+    successCount: record.successCount,
+    errorCount: record.errorCount,
+    errorRate: finishedCount > 0 ? record.errorCount / finishedCount : 0,
+    lastFetchDuration: record.durations[record.durations.length - 1],
+    averageFetchDuration:
+      finishedCount > 0 ? record.totalFetchDuration / finishedCount : undefined,
+    p95FetchDuration: percentile(record.durations, 0.95),
+    staleDuration: record.staleDuration + currentStaleDuration,
+    observerCount: record.query.getObserversCount(),
+    maxObserverCount: record.maxObserverCount,
+    observerCountSamples: [...record.observerCountSamples],
+    fetchCauses: { ...record.fetchCauses },
+  };
+}
+
+/**
+ * Collects per-query fetch statistics from query cache events
+ */
+export function createQueryMetricsCollector(): QueryMetricsCollector {
+  const records = new Map<string, QueryMetricsRecord>();
+  let focusedAt = -Infinity;
+  let reconnectedAt = -Infinity;
+  const manualFetchAt = new Map<string, number>();
+  const listeners = new Set<(metrics: QueryMetrics[]) => void>();
+  const changedKeys = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const recordKey = (clientId: string, queryHash: string) =>
+    `${clientId}:${queryHash}`;
+
+  const flush = () => {
+    timer = null;
+    const now = Date.now();
+    const metrics = Array.from(changedKeys).flatMap((key) => {
+      const record = records.get(key);
+      return record ? [toQueryMetrics(record, now)] : [];
+    });
+    changedKeys.clear();
+    if (metrics.length > 0) {
+      listeners.forEach((listener) => listener(metrics));
+    }
+  };
+
+  const markChanged = (key: string) => {
+    if (listeners.size === 0) {
+      return;
+    }
+    changedKeys.add(key);
+    if (timer === null) {
+      timer = setTimeout(flush, 0);
+    }
+  };
+
+  const getFetchCause = (
+    record: QueryMetricsRecord,
+    key: string,
+    now: number
+  ): QueryFetchCause => {
+    const { query } = record;
+    if (now - (manualFetchAt.get(key) ?? -Infinity) <= CAUSE_ATTRIBUTION_WINDOW_MS) {
+      return "manual";
+    }
+    if (now - focusedAt <= CAUSE_ATTRIBUTION_WINDOW_MS) {
+      return "focus";
+    }
+    if (now - reconnectedAt <= CAUSE_ATTRIBUTION_WINDOW_MS) {
+      return "reconnect";
+    }
+    if (query.state.isInvalidated) {
+      return "invalidate";
+    }
+    // Observers fetch on mount right after they are added
+    if (now - record.observerAddedAt <= CAUSE_ATTRIBUTION_WINDOW_MS) {
+      return "mount";
+    }
+    if (hasRefetchInterval(query)) {
+      return "interval";
+    }
+    return "other";
+  };
+
+  const sampleObservers = (record: QueryMetricsRecord, now: number) => {
+    const count = record.query.getObserversCount();
+    record.maxObserverCount = Math.max(record.maxObserverCount, count);
+    record.observerCountSamples.push({ timestamp: now, count });
+    if (record.observerCountSamples.length > MAX_OBSERVER_SAMPLES) {
+      record.observerCountSamples.shift();
+    }
+  };
+
+  const finishFetch = (
+    record: QueryMetricsRecord,
+    outcome: "success" | "error",
+    now: number
+  ) => {
+    if (record.fetchStartedAt === null) {
+      return;
+    }
+    const duration = now - record.fetchStartedAt;
+    record.fetchStartedAt = null;
+    record.totalFetchDuration += duration;
+    record.durations.push(duration);
+    if (record.durations.length > MAX_DURATION_SAMPLES) {
+      record.durations.shift();
+    }
+    if (outcome === "success") {
+      record.successCount += 1;
+      record.invalidatedAt = null;
+      record.staleAccountedUntil = now;
+    } else {
+      record.errorCount += 1;
+    }
+  };
+
+  const record = (clientId: string, event: QueryCacheNotifyEvent) => {
+    const { query } = event;
+    const key = recordKey(clientId, query.queryHash);
+    const now = Date.now();
+
+    if (event.type === "removed") {
+      records.delete(key);
+      changedKeys.delete(key);
+      manualFetchAt.delete(key);
+      return;
+    }
+    if (event.type === "observerResultsUpdated") {
+      return;
+    }
+
+    let metrics = records.get(key);
+    if (!metrics) {
+      metrics = {
+        clientId,
+        query,
+        fetchCount: 0,
+        successCount: 0,
+        errorCount: 0,
+        totalFetchDuration: 0,
+        durations: [],
+        fetchStartedAt: null,
+        invalidatedAt: null,
+        observerAddedAt: -Infinity,
+        staleDuration: 0,
+        staleAccountedUntil: 0,
+        maxObserverCount: 0,
+        observerCountSamples: [],
+        fetchCauses: {
+          manual: 0,
+          focus: 0,
+          reconnect: 0,
+          invalidate: 0,
+          mount: 0,
+          interval: 0,
+          other: 0,
+        },
+      };
+      records.set(key, metrics);
+    }
+    // A query re-added under the same hash is a new instance
+    metrics.query = query;
+
+    switch (event.type) {
+      case "observerAdded":
+        metrics.observerAddedAt = now;
+        sampleObservers(metrics, now);
+        return;
+      case "observerRemoved":
+        sampleObservers(metrics, now);
+        return;
+      case "updated":
+        break;
+      default:
+        return;
+    }
+
+    switch (event.action.type) {
+      case "fetch": {
+        // Count the time the previous data was stale before this refetch
+        const staleFrom = Math.max(getStaleSince(metrics), metrics.staleAccountedUntil);
+        if (now > staleFrom) {
+          metrics.staleDuration += now - staleFrom;
+          metrics.staleAccountedUntil = now;
+        }
+        metrics.fetchCount += 1;
+        metrics.fetchStartedAt = now;
+        metrics.fetchCauses[getFetchCause(metrics, key, now)] += 1;
+        manualFetchAt.delete(key);
+        break;
+      }
+      case "invalidate":
+        metrics.invalidatedAt = metrics.invalidatedAt ?? now;
+        break;
+      case "success":
+        // Data set manually with setQueryData is not a fetch
+        if (!event.action.manual) {
+          finishFetch(metrics, "success", now);
+          markChanged(key);
+        }
+        break;
+      case "error":
+        finishFetch(metrics, "error", now);
+        markChanged(key);
+        break;
+    }
+  };
+
+  const getMetrics = (filter: { clientId?: string; queryHash?: string } = {}) => {
+    const now = Date.now();
+    return Array.from(records.values())
+      .filter(
+        (metrics) =>
+          (filter.clientId === undefined || metrics.clientId === filter.clientId) &&
+          (filter.queryHash === undefined ||
+            metrics.query.queryHash === filter.queryHash)
+      )
+      .map((metrics) => toQueryMetrics(metrics, now));
+  };
+
+  const subscribe = (listener: (metrics: QueryMetrics[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+        changedKeys.clear();
+      }
+    };
+  };
+
+  return {
+    record,
+    recordFocus: () => {
+      focusedAt = Date.now();
+    },
+    recordReconnect: () => {
+      reconnectedAt = Date.now();
+    },
+    recordManualFetch: (clientId, queryHash) => {
+      manualFetchAt.set(recordKey(clientId, queryHash), Date.now());
+    },
+    getMetrics,
+    subscribe,
+  };
+}
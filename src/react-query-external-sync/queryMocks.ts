@@ -0,0 +1,169 @@
+import type {
+  Query,
+  QueryFunction,
+  QueryFunctionContext,
+} from "@tanstack/react-query";
+
+import { createErrorFromDescription } from "./errorFactories";
+import { QueryFetchInterceptor } from "./queryFetchInterceptors";
+import { isSkipToken, matchesQueryKey } from "./reactQueryCompat";
+import { getTransportCodec } from "./transportCodec";
+import { QueryMockRule } from "./types";
+
+// Marks a mock queryFn and holds the queryFn it replaces
+const REAL_QUERY_FN = Symbol("realQueryFn");
+
+type RealQueryFn = QueryFunction | undefined;
+type MockQueryFn = QueryFunction & { [REAL_QUERY_FN]: RealQueryFn };
+
+const isMockQueryFn = (queryFn: unknown): queryFn is MockQueryFn =>
+  typeof queryFn === "function" && REAL_QUERY_FN in queryFn;
+
+const unwrapQueryFn = (queryFn: unknown) =>
+  isMockQueryFn(queryFn) ? queryFn[REAL_QUERY_FN] : queryFn;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Whether a mock rule applies to a query of the given client, regardless of it being enabled
+ */
+export function matchesMockRule(
+  rule: QueryMockRule,
+  clientId: string,
+  query: Query
+): boolean {
+  if (rule.clientId !== undefined && rule.clientId !== clientId) {
+    return false;
+  }
+  if (
+    rule.queryKey !== undefined &&
+    !matchesQueryKey(query, rule.queryKey, rule.exact)
+  ) {
+    return false;
+  }
+  return rule.pattern === undefined || new RegExp(rule.pattern).test(query.queryHash);
+}
+
+export interface QueryMockRegistry {
+  /**
+   * Add a rule, or replace the rule with the same id keeping its position
+   */
+  setRule: (rule: QueryMockRule) => void;
+  toggleRule: (ruleId: string, enabled: boolean) => QueryMockRule | undefined;
+  removeRule: (ruleId: string) => QueryMockRule | undefined;
+  /**
+   * Remove every rule, returns the removed rules
+   */
+  clear: () => QueryMockRule[];
+  getRules: () => QueryMockRule[];
+  /**
+   * Swaps in a mock queryFn for fetches of queries matching a rule
+   */
+  interceptor: QueryFetchInterceptor;
+}
+
+/**
+ * Keeps the dashboard's mock rules and applies them to query fetches.
+ *
+ * Its fetch interceptor swaps in a mock queryFn for a fetch of a query
+ * matching a rule, for that fetch only. The rule is looked up again when the mock runs, so
+ * toggling a rule takes effect on the next fetch and refetches keep being
+ * mocked for as long as the rule is enabled.
+ */
+export function createQueryMockRegistry(): QueryMockRegistry {
+  const rules = new Map<string, QueryMockRule>();
+
+  const findRule = (clientId: string, query: Query) =>
+    Array.from(rules.values()).find(
+      (rule) => rule.enabled && matchesMockRule(rule, clientId, query)
+    );
+
+  const createMockQueryFn = (
+    clientId: string,
+    query: Query,
+    realQueryFn: RealQueryFn
+  ): MockQueryFn => {
+    const mockQueryFn = async (context: QueryFunctionContext) => {
+      const rule = findRule(clientId, query);
+      if (rule?.delay) {
+        await wait(rule.delay);
+      }
+      if (rule?.error) {
+        throw createErrorFromDescription(rule.error);
+      }
+      if (rule && "data" in rule) {
+        return getTransportCodec().decode(rule.data);
+      }
+      if (!realQueryFn) {
+        throw new Error(`Missing queryFn: '${query.queryHash}'`);
+      }
+      return realQueryFn(context);
+    };
+    return Object.assign(mockQueryFn, { [REAL_QUERY_FN]: realQueryFn });
+  };
+
+  const interceptor: QueryFetchInterceptor = {
+    intercept: (clientId, query, next, options, fetchOptions) => {
+      if (!findRule(clientId, query)) {
+        return next(options, fetchOptions);
+      }
+      const fetchQueryOptions = options ?? query.options;
+      // Same fallback as Query.fetch for queries built without a queryFn
+      const realQueryFn = unwrapQueryFn(
+        fetchQueryOptions.queryFn ??
+          query.observers.find((observer) => observer.options.queryFn)?.options
+            .queryFn
+      );
+      if (isSkipToken(realQueryFn)) {
+        return next(options, fetchOptions);
+      }
+      return next(
+        {
+          ...fetchQueryOptions,
+          queryFn: createMockQueryFn(clientId, query, realQueryFn as RealQueryFn),
+        },
+        fetchOptions
+      );
+    },
+    // Don't leave a mock behind for fetches that reuse the query's options
+    restore: (query) => {
+      if (isMockQueryFn(query.options.queryFn)) {
+        query.setOptions({
+          ...query.options,
+          queryFn: query.options.queryFn[REAL_QUERY_FN],
+        });
+      }
+    },
+  };
+
+  return {
+    setRule: (rule) => {
+      if (rule.pattern !== undefined) {
+        // Throws on an invalid pattern before the rule is stored
+        new RegExp(rule.pattern);
+      }
+      rules.set(rule.id, rule);
+    },
+    toggleRule: (ruleId, enabled) => {
+      const rule = rules.get(ruleId);
+      if (!rule) {
+        return undefined;
+      }
+      const toggled = { ...rule, enabled };
+      rules.set(ruleId, toggled);
+      return toggled;
+    },
+    removeRule: (ruleId) => {
+      const rule = rules.get(ruleId);
+      rules.delete(ruleId);
+      return rule;
+    },
+    clear: () => {
+      const removed = Array.from(rules.values());
+      rules.clear();
+      return removed;
+    },
+    getRules: () => Array.from(rules.values()),
+    interceptor,
+  };
+}
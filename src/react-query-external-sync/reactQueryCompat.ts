@@ -0,0 +1,183 @@
+import * as ReactQuery from "@tanstack/react-query";
+import type {
+  Mutation,
+  MutationState,
+  Query,
+  QueryKey,
+  QueryState,
+} from "@tanstack/react-query";
+
+/**
+ * Major version of @tanstack/react-query, the versions supported by the peer dependency
+ */
+export type ReactQueryMajorVersion = 4 | 5;
+
+// Read through a plain record so exports missing from one version resolve to undefined
+const reactQueryExports = ReactQuery as unknown as Record<string, unknown>;
+
+/**
+ * Tell the installed version apart by the exports renamed or added in v5
+ */
+function detectReactQueryVersion(): ReactQueryMajorVersion | null {
+  if (typeof reactQueryExports.hashKey === "function") {
+    return 5;
+  }
+  if (typeof reactQueryExports.hashQueryKey === "function") {
+    return 4;
+  }
+  return null;
+}
+
+/**
+ * Version of the installed React Query, null when it is neither v4 nor v5
+ */
+export const reactQueryVersion = detectReactQueryVersion();
+
+const isV4 = reactQueryVersion === 4;
+
+/**
+ * Options renamed in v5, by their v5 name
+ */
+const RENAMED_OPTIONS: Record<string, string> = {
+  gcTime: "cacheTime",
+  throwOnError: "useErrorBoundary",
+};
+
+const renameKeys = (
+  options: Record<string, unknown>,
+  names: Record<string, string>
+) =>
+  Object.fromEntries(
+    Object.entries(options).map(([key, value]) => [names[key] ?? key, value])
+  );
+
+const V4_TO_V5_OPTIONS = Object.fromEntries(
+  Object.entries(RENAMED_OPTIONS).map(([v5Name, v4Name]) => [v4Name, v5Name])
+);
+
+/**
+ * Rename v5 options such as gcTime to what the installed version expects
+ */
+export function toClientOptions<TOptions extends object>(options: TOptions): TOptions {
+  return isV4
+    ? (renameKeys(options as Record<string, unknown>, RENAMED_OPTIONS) as TOptions)
+    : options;
+}
+
+/**
+ * Rename options of the installed version to their v5 name, so the dashboard sees one shape
+ */
+export function fromClientOptions<TOptions extends object>(options: TOptions): TOptions {
+  return isV4
+    ? (renameKeys(options as Record<string, unknown>, V4_TO_V5_OPTIONS) as TOptions)
+    : options;
+}
+
+/**
+ * Name of an option of the installed version, from its v5 name
+ */
+export const getClientOptionName = (v5Name: string) =>
+  isV4 ? RENAMED_OPTIONS[v5Name] ?? v5Name : v5Name;
+
+/**
+ * Status of a query or mutation without data yet, "loading" in v4
+ */
+export const PENDING_STATUS = (isV4 ? "loading" : "pending") as "pending";
+
+/**
+ * Report the v4 "loading" status as the v5 "pending" status
+ */
+export function fromClientStatus<TState extends QueryState | MutationState>(
+  state: TState
+): TState {
+  return (state.status as string) === "loading"
+    ? { ...state, status: "pending" }
+    : state;
+}
+
+/**
+ * Turn the v5 "pending" status back into "loading" on v4
+ */
+export function toClientStatus<TState extends QueryState | MutationState>(
+  state: TState
+): TState {
+  return state.status === "pending" ? { ...state, status: PENDING_STATUS } : state;
+}
+
+/**
+ * Garbage collection time of a query or mutation, called cacheTime in v4
+ */
+export function getGcTime(removable: Query | Mutation): number | undefined {
+  const { gcTime, cacheTime } = removable as unknown as {
+    gcTime?: number;
+    cacheTime?: number;
+  };
+  return gcTime ?? cacheTime;
+}
+
+/**
+ * Hash a query or mutation key, hashKey in v5 and hashQueryKey in v4
+ */
+export function hashQueryKey(queryKey: QueryKey): string {
+  const hash = (reactQueryExports.hashKey ?? reactQueryExports.hashQueryKey) as (
+    queryKey: QueryKey
+  ) => string;
+  return hash(queryKey);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Whether `queryKey` starts with `prefix`, comparing objects regardless of key order
+ */
+export function partialMatchKey(queryKey: unknown, prefix: unknown): boolean {
+  if (queryKey === prefix) {
+    return true;
+  }
+  if (Array.isArray(queryKey) && Array.isArray(prefix)) {
+    return prefix.every((item, index) => partialMatchKey(queryKey[index], item));
+  }
+  if (isObject(queryKey) && isObject(prefix)) {
+    return Object.keys(prefix).every((key) =>
+      partialMatchKey(queryKey[key], prefix[key])
+    );
+  }
+  return false;
+}
+
+/**
+ * Whether a query matches a query key by prefix or exactly, like matchQuery.
+ * v4 does not export matchQuery, so its key matching is reproduced there.
+ */
+export function matchesQueryKey(
+  query: Query,
+  queryKey: QueryKey,
+  exact?: boolean
+): boolean {
+  if (typeof reactQueryExports.matchQuery === "function") {
+    return ReactQuery.matchQuery({ queryKey, exact }, query);
+  }
+  return exact
+    ? query.queryHash === hashQueryKey(queryKey)
+    : partialMatchKey(query.queryKey, queryKey);
+}
+
+/**
+ * Whether a queryFn is skipToken, which only exists in v5
+ */
+export const isSkipToken = (queryFn: unknown) =>
+  reactQueryExports.skipToken !== undefined && queryFn === reactQueryExports.skipToken;
+
+/**
+ * Arguments of a refetchInterval callback, v4 passes the data before the query
+ */
+export const getRefetchIntervalArgs = (query: Query): unknown[] =>
+  isV4 ? [query.state.data, query] : [query];
+
+/**
+ * Options of a mutation built to run with the given variables.
+ * v5 takes the variables when the mutation is executed, v4 reads them from its options.
+ */
+export const getMutationVariablesOptions = (variables: unknown) =>
+  isV4 ? { variables } : {};
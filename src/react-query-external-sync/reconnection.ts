@@ -0,0 +1,67 @@
+/**
+ * Automatic reconnection options of the socket connection
+ */
+export interface ReconnectionOptions {
+  /**
+   * Delay before the first reconnect attempt, in milliseconds
+   * @default 1000
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound of the delay between two attempts, in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Factor the delay grows by after each failed attempt
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * Share of the delay that is randomized, between 0 and 1, so devices
+   * don't all reconnect at once when the dashboard restarts
+   * @default 0.5
+   */
+  jitter?: number;
+  /**
+   * Attempts before giving up until the app returns to the foreground or connect() is called
+   * @default Infinity
+   */
+  maxAttempts?: number;
+  /**
+   * Reconnect right away when the app returns to the foreground
+   * @default true
+   */
+  reconnectOnForeground?: boolean;
+}
+
+export const DEFAULT_RECONNECTION_OPTIONS: Required<ReconnectionOptions> = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: Infinity,
+  reconnectOnForeground: true,
+};
+
+/**
+ * Delay before a reconnect attempt: exponential backoff capped at maxDelay,
+ * with up to `jitter` of it randomized in either direction
+ *
+ * @param attempt The attempt about to be made, starting at 1
+ * @param options The reconnection options, with defaults applied
+ * @param random Returns a number in [0, 1)
+ */
+export function getReconnectDelay(
+  attempt: number,
+  options: Required<ReconnectionOptions>,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.multiplier, attempt - 1)
+  );
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+  const offset = backoff * jitter * (random() * 2 - 1);
+  return Math.round(Math.min(options.maxDelay, Math.max(0, backoff + offset)));
+}
@@ -0,0 +1,315 @@
+import type { MutationKey, QueryKey } from "@tanstack/react-query";
+
+import { NetworkRequest } from "./types";
+
+/**
+ * Replaces every redacted value, so it cannot be mistaken for a real empty value
+ */
+export const REDACTED_VALUE = "[REDACTED]";
+
+/**
+ * Describes where a value being redacted comes from
+ */
+export type RedactionContext =
+  | { source: "query"; queryKey: QueryKey }
+  | { source: "mutation"; mutationKey?: MutationKey }
+  | { source: "storage"; key: string }
+  | { source: "network"; url: string };
+
+/**
+ * Custom redactor, returns the value to send instead of the given one
+ */
+export type Redactor = (value: unknown, context: RedactionContext) => unknown;
+
+/**
+ * Configures which values are replaced with REDACTED_VALUE before they leave the device
+ */
+export interface RedactionOptions {
+  /**
+   * Key paths to redact in query data, mutation variables/context/data,
+   * JSON storage values and network bodies.
+   * Segments are separated by dots, `*` matches one segment and `**` any number
+   * of segments. A single key name such as "password" matches at any depth.
+   * Regular expressions are tested against the dot-joined path.
+   * @example ["password", "user.token", "items.*.cardNumber", /secret/i]
+   */
+  keyPaths?: (string | RegExp)[];
+  /**
+   * Request and response header names to redact (case-insensitive)
+   * @default ["Authorization", "Cookie", "Set-Cookie"]
+   */
+  headers?: string[];
+  /**
+   * Storage keys whose whole value is redacted, `*` matches any characters
+   * @example ["auth:*", "session"]
+   */
+  storageKeys?: string[];
+  /**
+   * Custom redactors, applied after the built-in rules
+   */
+  redactors?: Redactor[];
+}
+
+export const DEFAULT_REDACTED_HEADERS = ["Authorization", "Cookie", "Set-Cookie"];
+
+type PathMatcher = (path: string[]) => boolean;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${glob.split("*").map(escapeRegExp).join(".*")}$`);
+
+function compileKeyPath(pattern: string | RegExp): PathMatcher {
+  if (pattern instanceof RegExp) {
+    return (path) => pattern.test(path.join("."));
+  }
+
+  // A bare key name matches at any depth
+  const segments = pattern.includes(".") ? pattern.split(".") : ["**", pattern];
+
+  const matchFrom = (path: string[], pathIndex: number, segmentIndex: number): boolean => {
+    if (segmentIndex === segments.length) {
+      return pathIndex === path.length;
+    }
+    const segment = segments[segmentIndex];
+    if (segment === "**") {
+      for (let index = pathIndex; index <= path.length; index++) {
+        if (matchFrom(path, index, segmentIndex + 1)) {
+          return true;
+        }
+      }
+      return false;
+    }
+    if (pathIndex === path.length) {
+      return false;
+    }
+    return (
+      (segment === "*" || segment === path[pathIndex]) &&
+      matchFrom(path, pathIndex + 1, segmentIndex + 1)
+    );
+  };
+
+  return (path) => matchFrom(path, 0, 0);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Sent as they are by the transport codec, nothing inside them can match a key path
+const isOpaqueObject = (value: object) =>
+  value instanceof Date ||
+  value instanceof RegExp ||
+  (typeof ArrayBuffer !== "undefined" &&
+    (value instanceof ArrayBuffer || ArrayBuffer.isView(value)));
+
+/**
+ * Replace values at matching key paths in everything the transport codec
+ * sends: plain objects, arrays, Map values (keyed by their stringified key),
+ * Set values (keyed by index), error properties and the enumerable properties
+ * of class instances. Objects without any match are returned as they are, so
+ * their identity is kept; the others are copied with their prototype.
+ */
+function redactKeyPaths(
+  value: unknown,
+  path: string[],
+  pathMatchers: PathMatcher[],
+  seen: Map<object, unknown>
+): unknown {
+  if (typeof value !== "object" || value === null || isOpaqueObject(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  let changed = false;
+  const redactChild = (child: unknown, key: string) => {
+    const childPath = [...path, key];
+    const result = pathMatchers.some((matches) => matches(childPath))
+      ? REDACTED_VALUE
+      : redactKeyPaths(child, childPath, pathMatchers, seen);
+    if (result !== child) {
+      changed = true;
+    }
+    return result;
+  };
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    seen.set(value, result);
+    value.forEach((item, index) => {
+      result.push(redactChild(item, String(index)));
+    });
+    return changed ? result : value;
+  }
+
+  if (value instanceof Map) {
+    const result = new Map<unknown, unknown>();
+    seen.set(value, result);
+    value.forEach((entryValue, key) => {
+      result.set(key, redactChild(entryValue, String(key)));
+    });
+    return changed ? result : value;
+  }
+
+  if (value instanceof Set) {
+    const result = new Set<unknown>();
+    seen.set(value, result);
+    Array.from(value).forEach((item, index) => {
+      result.add(redactChild(item, String(index)));
+    });
+    return changed ? result : value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const result: Record<string, unknown> = isPlainObject(record)
+    ? {}
+    : Object.create(Object.getPrototypeOf(record));
+  seen.set(value, result);
+  // message, stack and cause of errors are own but not enumerable
+  const keys =
+    value instanceof Error ? Object.getOwnPropertyNames(value) : Object.keys(value);
+  keys.forEach((key) => {
+    result[key] = redactChild(record[key], key);
+  });
+  return changed ? result : value;
+}
+
+/**
+ * Apply the key path rules, parsing JSON strings such as storage values and
+ * request bodies so their fields can be matched too
+ */
+function applyKeyPaths(value: unknown, pathMatchers: PathMatcher[]): unknown {
+  if (pathMatchers.length === 0) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+      return value;
+    }
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      const redacted = redactKeyPaths(parsed, [], pathMatchers, new Map());
+      // Re-stringifying would lose precision of integers above 2^53
+      return redacted === parsed ? value : JSON.stringify(redacted);
+    } catch (e) {
+      return value;
+    }
+  }
+  return redactKeyPaths(value, [], pathMatchers, new Map());
+}
+
+/**
+ * Redaction applied by one sync hook to every payload it sends to the dashboard
+ */
+export interface Redaction {
+  /**
+   * Replace the rules, passing undefined restores the defaults which only redact sensitive headers
+   */
+  configure: (options?: RedactionOptions) => void;
+  /**
+   * Redact a payload such as query data, mutation variables, an error or a request body
+   */
+  redactValue: (value: unknown, context: RedactionContext) => unknown;
+  /**
+   * Redact sensitive headers
+   */
+  redactHeaders: (
+    headers: Record<string, string> | undefined
+  ) => Record<string, string> | undefined;
+  /**
+   * Redact a storage value, entirely when its key matches a storage key glob,
+   * otherwise by key path when it holds JSON
+   */
+  redactStorageValue: (key: string, value: string) => string;
+  /**
+   * Redact headers and bodies of a captured network request
+   */
+  redactNetworkRequest: (request: NetworkRequest) => NetworkRequest;
+}
+
+/**
+ * Compile redaction options. Each sync hook keeps its own, so hooks with
+ * different options don't redact with each other's rules.
+ */
+export function createRedaction(options?: RedactionOptions): Redaction {
+  let pathMatchers: PathMatcher[] = [];
+  let headers = new Set<string>();
+  let storageKeys: RegExp[] = [];
+  let redactors: Redactor[] = [];
+
+  const configure = (nextOptions: RedactionOptions = {}) => {
+    pathMatchers = (nextOptions.keyPaths ?? []).map(compileKeyPath);
+    headers = new Set(
+      (nextOptions.headers ?? DEFAULT_REDACTED_HEADERS).map((header) =>
+        header.toLowerCase()
+      )
+    );
+    storageKeys = (nextOptions.storageKeys ?? []).map(globToRegExp);
+    redactors = nextOptions.redactors ?? [];
+  };
+  configure(options);
+
+  const redactValue = (value: unknown, context: RedactionContext) =>
+    redactors.reduce(
+      (result, redactor) => redactor(result, context),
+      applyKeyPaths(value, pathMatchers)
+    );
+
+  const redactHeaders = (requestHeaders: Record<string, string> | undefined) => {
+    if (!requestHeaders) {
+      return requestHeaders;
+    }
+    const result: Record<string, string> = {};
+    Object.keys(requestHeaders).forEach((name) => {
+      result[name] = headers.has(name.toLowerCase())
+        ? REDACTED_VALUE
+        : requestHeaders[name];
+    });
+    return result;
+  };
+
+  const redactStorageValue = (key: string, value: string) => {
+    if (storageKeys.some((pattern) => pattern.test(key))) {
+      return REDACTED_VALUE;
+    }
+    const redacted = redactValue(value, { source: "storage", key });
+    return typeof redacted === "string" ? redacted : JSON.stringify(redacted);
+  };
+
+  const redactNetworkRequest = (request: NetworkRequest): NetworkRequest => {
+    const context: RedactionContext = { source: "network", url: request.url };
+
+    switch (request.type) {
+      case "fetch":
+      case "xhr":
+        return {
+          ...request,
+          headers: redactHeaders(request.headers),
+          responseHeaders: redactHeaders(request.responseHeaders),
+          requestBody: redactValue(request.requestBody, context),
+          responseBody: redactValue(request.responseBody, context),
+        };
+      case "websocket":
+        return { ...request, data: redactValue(request.data, context) };
+      case "graphql":
+        return {
+          ...request,
+          variables: redactValue(request.variables, context),
+          response: redactValue(request.response, context),
+        };
+    }
+  };
+
+  return {
+    configure,
+    redactValue,
+    redactHeaders,
+    redactStorageValue,
+    redactNetworkRequest,
+  };
+}
@@ -1,4 +1,6 @@
-import { Socket } from 'socket.io-client';
+import { MessageEmitter } from './outbox';
+import { createRedaction, Redaction } from './redaction';
+import { getTransportCodec } from './transportCodec';
 import { NetworkRequest, NetworkRequestSyncMessage } from './types';
 import { log } from './utils/logger';
 
@@ -12,12 +14,14 @@ import { log } from './utils/logger';
  * @param request The network request data to send
  * @param persistentDeviceId The unique identifier for this device
  * @param enableLogs Whether to enable logging
+ * @param redaction Redacts headers and bodies, defaults to redacting sensitive headers
  */
 export function sendNetworkRequest(
-  socket: Socket | undefined,
+  socket: MessageEmitter | undefined,
   request: NetworkRequest,
   persistentDeviceId: string,
-  enableLogs = false
+  enableLogs = false,
+  redaction: Redaction = createRedaction()
 ): void {
   if (!socket) {
     log('Cannot send network request - socket not connected', enableLogs, 'warn');
@@ -31,7 +35,8 @@ export function sendNetworkRequest(
 
   const message: NetworkRequestSyncMessage = {
     type: 'network-request-sync',
-    request,
+    // Redacted, then encoded so request and response bodies survive JSON transport
+    request: getTransportCodec().encode(redaction.redactNetworkRequest(request)) as NetworkRequest,
     persistentDeviceId,
   };
 
@@ -48,11 +53,13 @@ export function sendNetworkRequest(
  * @param socket The socket.io client instance
  * @param persistentDeviceId The unique identifier for this device
  * @param enableLogs Whether to enable logging
+ * @param redaction Redacts headers and bodies, defaults to redacting sensitive headers
  */
 export function setupFetchInterceptor(
-  socket: Socket | undefined,
+  socket: MessageEmitter | undefined,
   persistentDeviceId: string,
-  enableLogs = false
+  enableLogs = false,
+  redaction: Redaction = createRedaction()
 ): () => void {
   if (!socket) {
     log('Cannot set up fetch interceptor - socket not connected', enableLogs, 'warn');
@@ -91,7 +98,7 @@ export function setupFetchInterceptor(
     };
 
     // Send the initial request to the dashboard
-    sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs);
+    sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs, redaction);
 
     try {
       // Make the actual fetch request
@@ -156,7 +163,7 @@ export function setupFetchInterceptor(
       };
 
       // Send the updated request to the dashboard
-      sendNetworkRequest(socket, updatedRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, updatedRequest, persistentDeviceId, enableLogs, redaction);
 
       // Return the original response
       return response;
@@ -171,7 +178,7 @@ export function setupFetchInterceptor(
       };
 
       // Send the error request to the dashboard
-      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs, redaction);
 
       // Re-throw the error
       throw error;
@@ -193,11 +200,13 @@ export function setupFetchInterceptor(
  * @param socket The socket.io client instance
  * @param persistentDeviceId The unique identifier for this device
  * @param enableLogs Whether to enable logging
+ * @param redaction Redacts headers and bodies, defaults to redacting sensitive headers
  */
 export function setupXHRInterceptor(
-  socket: Socket | undefined,
+  socket: MessageEmitter | undefined,
   persistentDeviceId: string,
-  enableLogs = false
+  enableLogs = false,
+  redaction: Redaction = createRedaction()
 ): () => void {
   if (!socket) {
     log('Cannot set up XHR interceptor - socket not connected', enableLogs, 'warn');
@@ -257,7 +266,7 @@ export function setupXHRInterceptor(
       };
 
       // Send the initial request to the dashboard
-      sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs, redaction);
 
       return originalSend.apply(xhr, [body]);
     };
@@ -311,7 +320,7 @@ export function setupXHRInterceptor(
       };
 
       // Send the updated request to the dashboard
-      sendNetworkRequest(socket, updatedRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, updatedRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     // Listen for the error event to capture errors
@@ -333,7 +342,7 @@ export function setupXHRInterceptor(
       };
 
       // Send the error request to the dashboard
-      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     return xhr;
@@ -357,11 +366,13 @@ export function setupXHRInterceptor(
  * @param socket The socket.io client instance
  * @param persistentDeviceId The unique identifier for this device
  * @param enableLogs Whether to enable logging
+ * @param redaction Redacts headers and bodies, defaults to redacting sensitive headers
  */
 export function setupWebSocketInterceptor(
-  socket: Socket | undefined,
+  socket: MessageEmitter | undefined,
   persistentDeviceId: string,
-  enableLogs = false
+  enableLogs = false,
+  redaction: Redaction = createRedaction()
 ): () => void {
   if (!socket) {
     log('Cannot set up WebSocket interceptor - socket not connected', enableLogs, 'warn');
@@ -394,7 +405,7 @@ export function setupWebSocketInterceptor(
     };
 
     // Send the initial connection request to the dashboard
-    sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs);
+    sendNetworkRequest(socket, initialRequest, persistentDeviceId, enableLogs, redaction);
 
     // Listen for the open event
     ws.addEventListener('open', function() {
@@ -407,7 +418,7 @@ export function setupWebSocketInterceptor(
       };
 
       // Send the open connection request to the dashboard
-      sendNetworkRequest(socket, openRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, openRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     // Listen for the message event
@@ -436,7 +447,7 @@ export function setupWebSocketInterceptor(
       };
 
       // Send the message request to the dashboard
-      sendNetworkRequest(socket, messageRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, messageRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     // Override the send method to capture outgoing messages
@@ -470,7 +481,7 @@ export function setupWebSocketInterceptor(
       };
 
       // Send the message request to the dashboard
-      sendNetworkRequest(socket, messageRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, messageRequest, persistentDeviceId, enableLogs, redaction);
 
       return originalSend.apply(ws, [data]);
     };
@@ -490,7 +501,7 @@ export function setupWebSocketInterceptor(
       };
 
       // Send the close connection request to the dashboard
-      sendNetworkRequest(socket, closeRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, closeRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     // Listen for the error event
@@ -508,7 +519,7 @@ export function setupWebSocketInterceptor(
       };
 
       // Send the error connection request to the dashboard
-      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs);
+      sendNetworkRequest(socket, errorRequest, persistentDeviceId, enableLogs, redaction);
     });
 
     return ws;
@@ -532,15 +543,17 @@ export function setupWebSocketInterceptor(
  * @param socket The socket.io client instance
  * @param persistentDeviceId The unique identifier for this device
  * @param enableLogs Whether to enable logging
+ * @param redaction Redacts headers and bodies, defaults to redacting sensitive headers
  */
 export function setupNetworkInterceptors(
-  socket: Socket | undefined,
+  socket: MessageEmitter | undefined,
   persistentDeviceId: string,
-  enableLogs = false
+  enableLogs = false,
+  redaction: Redaction = createRedaction()
 ): () => void {
-  const removeFetchInterceptor = setupFetchInterceptor(socket, persistentDeviceId, enableLogs);
-  const removeXHRInterceptor = setupXHRInterceptor(socket, persistentDeviceId, enableLogs);
-  const removeWebSocketInterceptor = setupWebSocketInterceptor(socket, persistentDeviceId, enableLogs);
+  const removeFetchInterceptor = setupFetchInterceptor(socket, persistentDeviceId, enableLogs, redaction);
+  const removeXHRInterceptor = setupXHRInterceptor(socket, persistentDeviceId, enableLogs, redaction);
+  const removeWebSocketInterceptor = setupWebSocketInterceptor(socket, persistentDeviceId, enableLogs, redaction);
 
   // Return a function to remove all interceptors
   return () => {
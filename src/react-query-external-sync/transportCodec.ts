@@ -0,0 +1,386 @@
+/**
+ * Transport codec for values that JSON cannot represent.
+ *
+ * socket.io JSON-encodes everything we emit, which silently turns `Date` into a
+ * string, `Map`/`Set`/`Error` into `{}`, drops `undefined` and throws on
+ * `BigInt` or circular data. The default codec rewrites such values into
+ * tagged JSON nodes (`{ $type: "Date", value: "..." }`) that the dashboard can
+ * decode back into the original types.
+ */
+
+const TYPE_KEY = "$type";
+
+type PathSegment = string | number;
+
+/**
+ * A JSON-safe node describing a value JSON cannot represent
+ */
+export interface TaggedValue {
+  $type: string;
+  value?: unknown;
+}
+
+/**
+ * Encodes values before they are emitted and decodes values received from the dashboard
+ */
+export interface TransportCodec {
+  /**
+   * Sent to the dashboard so it knows how to decode payloads
+   */
+  name: string;
+  encode: (value: unknown) => unknown;
+  decode: (value: unknown) => unknown;
+}
+
+/**
+ * A custom type handled by the default codec, e.g. a Decimal or Money class
+ */
+export interface CustomTransportType<T = unknown> {
+  name: string; // Unique tag, must not clash with the built-in tags
+  isApplicable: (value: unknown) => boolean;
+  // A method so types of any T can be listed together in customTypes.
+  // The result must not reference the value itself, it can only be rebuilt once deserialized.
+  serialize(value: T): unknown;
+  deserialize: (value: unknown) => T;
+}
+
+type TypedArrayConstructor = {
+  new (values: ArrayLike<number> | ArrayLike<bigint>): ArrayLike<unknown>;
+};
+
+const typedArrayConstructors: Record<string, TypedArrayConstructor | undefined> =
+  {
+    Int8Array: typeof Int8Array !== "undefined" ? Int8Array : undefined,
+    Uint8Array: typeof Uint8Array !== "undefined" ? Uint8Array : undefined,
+    Uint8ClampedArray:
+      typeof Uint8ClampedArray !== "undefined" ? Uint8ClampedArray : undefined,
+    Int16Array: typeof Int16Array !== "undefined" ? Int16Array : undefined,
+    Uint16Array: typeof Uint16Array !== "undefined" ? Uint16Array : undefined,
+    Int32Array: typeof Int32Array !== "undefined" ? Int32Array : undefined,
+    Uint32Array: typeof Uint32Array !== "undefined" ? Uint32Array : undefined,
+    Float32Array: typeof Float32Array !== "undefined" ? Float32Array : undefined,
+    Float64Array: typeof Float64Array !== "undefined" ? Float64Array : undefined,
+    BigInt64Array:
+      typeof BigInt64Array !== "undefined"
+        ? (BigInt64Array as unknown as TypedArrayConstructor)
+        : undefined,
+    BigUint64Array:
+      typeof BigUint64Array !== "undefined"
+        ? (BigUint64Array as unknown as TypedArrayConstructor)
+        : undefined,
+  };
+
+const isBigIntArrayName = (name: string) =>
+  name === "BigInt64Array" || name === "BigUint64Array";
+
+/**
+ * Whether a value is a tagged node of the default codec
+ */
+export const isTaggedValue = (value: unknown): value is TaggedValue =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as Record<string, unknown>)[TYPE_KEY] === "string";
+
+const pathKey = (path: PathSegment[]) => JSON.stringify(path);
+
+/**
+ * Create a type-tagged codec.
+ * Repeated and circular references are encoded as `{ $type: "ref", value: path }`
+ * pointing at the first occurrence, so object identity survives the round trip.
+ */
+export function createTransportCodec({
+  customTypes = [],
+}: { customTypes?: CustomTransportType<unknown>[] } = {}): TransportCodec {
+  const customTypesByName = new Map(
+    customTypes.map((customType) => [customType.name, customType])
+  );
+
+  // Custom values being serialized, a reference back to one cannot be decoded
+  const serializing = new Set<object>();
+
+  const encodeValue = (
+    value: unknown,
+    path: PathSegment[],
+    seen: Map<object, PathSegment[]>
+  ): unknown => {
+    switch (typeof value) {
+      case "undefined":
+        return { $type: "undefined" };
+      case "string":
+      case "boolean":
+        return value;
+      case "number":
+        if (Number.isFinite(value) && !Object.is(value, -0)) {
+          return value;
+        }
+        return { $type: "number", value: Object.is(value, -0) ? "-0" : String(value) };
+      case "bigint":
+        return { $type: "bigint", value: value.toString() };
+      case "symbol":
+        return { $type: "symbol", value: value.description };
+      case "function":
+        return { $type: "function", value: value.name };
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    const object = value as object;
+    if (serializing.has(object)) {
+      throw new TypeError(
+        "A custom transport type cannot serialize to a value referencing itself"
+      );
+    }
+    const seenPath = seen.get(object);
+    if (seenPath) {
+      return { $type: "ref", value: seenPath };
+    }
+    seen.set(object, path);
+
+    const customType = customTypes.find((candidate) =>
+      candidate.isApplicable(object)
+    );
+    if (customType) {
+      serializing.add(object);
+      try {
+        return {
+          $type: customType.name,
+          value: encodeValue(customType.serialize(object), [...path, "value"], seen),
+        };
+      } finally {
+        serializing.delete(object);
+      }
+    }
+
+    if (object instanceof Date) {
+      return {
+        $type: "Date",
+        value: isNaN(object.getTime()) ? "Invalid Date" : object.toISOString(),
+      };
+    }
+    if (object instanceof RegExp) {
+      return { $type: "RegExp", value: { source: object.source, flags: object.flags } };
+    }
+    if (object instanceof Error) {
+      const { name, message, stack, ...rest } = object;
+      const props: Record<string, unknown> = { name, message, stack, ...rest };
+      const cause = (object as { cause?: unknown }).cause;
+      if (cause !== undefined) {
+        props.cause = cause;
+      }
+      const encodedProps: Record<string, unknown> = {};
+      Object.keys(props).forEach((key) => {
+        encodedProps[key] = encodeValue(props[key], [...path, "value", key], seen);
+      });
+      return { $type: "Error", value: encodedProps };
+    }
+    if (object instanceof Map) {
+      return {
+        $type: "Map",
+        value: Array.from(object.entries()).map(([key, entryValue], index) => [
+          encodeValue(key, [...path, "value", index, 0], seen),
+          encodeValue(entryValue, [...path, "value", index, 1], seen),
+        ]),
+      };
+    }
+    if (object instanceof Set) {
+      return {
+        $type: "Set",
+        value: Array.from(object.values()).map((item, index) =>
+          encodeValue(item, [...path, "value", index], seen)
+        ),
+      };
+    }
+    if (typeof ArrayBuffer !== "undefined") {
+      if (object instanceof ArrayBuffer) {
+        return { $type: "ArrayBuffer", value: Array.from(new Uint8Array(object)) };
+      }
+      if (typeof DataView !== "undefined" && object instanceof DataView) {
+        return {
+          $type: "DataView",
+          value: Array.from(
+            new Uint8Array(object.buffer, object.byteOffset, object.byteLength)
+          ),
+        };
+      }
+      if (ArrayBuffer.isView(object)) {
+        const name = object.constructor.name;
+        const items = Array.from(object as unknown as ArrayLike<number | bigint>);
+        return {
+          $type: name,
+          value: isBigIntArrayName(name) ? items.map(String) : items,
+        };
+      }
+    }
+    if (Array.isArray(object)) {
+      return object.map((item, index) => encodeValue(item, [...path, index], seen));
+    }
+
+    // Plain objects, and class instances as their own enumerable properties.
+    // Objects that already use the tag key are escaped so they are not decoded as tags.
+    const record = object as Record<string, unknown>;
+    const isEscaped = TYPE_KEY in record;
+    const childPath = isEscaped ? [...path, "value"] : path;
+    const encoded: Record<string, unknown> = {};
+    Object.keys(record).forEach((key) => {
+      encoded[key] = encodeValue(record[key], [...childPath, key], seen);
+    });
+    return isEscaped ? { $type: "escaped", value: encoded } : encoded;
+  };
+
+  const decodeValue = (
+    value: unknown,
+    path: PathSegment[],
+    registry: Map<string, unknown>
+  ): unknown => {
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      registry.set(pathKey(path), result);
+      value.forEach((item, index) => {
+        result.push(decodeValue(item, [...path, index], registry));
+      });
+      return result;
+    }
+
+    const decodeRecord = (
+      record: Record<string, unknown>,
+      target: Record<string, unknown>,
+      recordPath: PathSegment[]
+    ) => {
+      Object.keys(record).forEach((key) => {
+        target[key] = decodeValue(record[key], [...recordPath, key], registry);
+      });
+      return target;
+    };
+
+    if (!isTaggedValue(value)) {
+      const result: Record<string, unknown> = {};
+      registry.set(pathKey(path), result);
+      return decodeRecord(value as Record<string, unknown>, result, path);
+    }
+
+    const tagged = value;
+    const valuePath = [...path, "value"];
+    const register = <T>(result: T): T => {
+      registry.set(pathKey(path), result);
+      return result;
+    };
+
+    switch (tagged.$type) {
+      case "undefined":
+      case "function":
+        return undefined;
+      case "number":
+        return Number(tagged.value);
+      case "bigint":
+        return BigInt(tagged.value as string);
+      case "symbol":
+        return Symbol(tagged.value as string | undefined);
+      case "ref":
+        return registry.get(pathKey(tagged.value as PathSegment[]));
+      case "Date":
+        return register(new Date(tagged.value as string));
+      case "RegExp": {
+        const { source, flags } = tagged.value as { source: string; flags: string };
+        return register(new RegExp(source, flags));
+      }
+      case "Error": {
+        const error = register(new Error()) as Error & Record<string, unknown>;
+        decodeRecord(tagged.value as Record<string, unknown>, error, valuePath);
+        return error;
+      }
+      case "Map": {
+        const map = register(new Map<unknown, unknown>());
+        (tagged.value as [unknown, unknown][]).forEach(([key, entryValue], index) => {
+          map.set(
+            decodeValue(key, [...valuePath, index, 0], registry),
+            decodeValue(entryValue, [...valuePath, index, 1], registry)
+          );
+        });
+        return map;
+      }
+      case "Set": {
+        const set = register(new Set<unknown>());
+        (tagged.value as unknown[]).forEach((item, index) => {
+          set.add(decodeValue(item, [...valuePath, index], registry));
+        });
+        return set;
+      }
+      case "ArrayBuffer":
+        return register(new Uint8Array(tagged.value as number[]).buffer);
+      case "DataView":
+        return register(new DataView(new Uint8Array(tagged.value as number[]).buffer));
+      case "escaped":
+        return decodeRecord(
+          tagged.value as Record<string, unknown>,
+          register({}),
+          valuePath
+        );
+    }
+
+    const TypedArray = typedArrayConstructors[tagged.$type];
+    if (TypedArray) {
+      const items = tagged.value as (number | string)[];
+      return register(
+        new TypedArray(
+          isBigIntArrayName(tagged.$type)
+            ? items.map((item) => BigInt(item))
+            : (items as number[])
+        )
+      );
+    }
+
+    const customType = customTypesByName.get(tagged.$type);
+    if (customType) {
+      return register(
+        customType.deserialize(decodeValue(tagged.value, valuePath, registry))
+      );
+    }
+
+    // Unknown tag - keep it as a plain object
+    const result: Record<string, unknown> = {};
+    registry.set(pathKey(path), result);
+    return decodeRecord(tagged as unknown as Record<string, unknown>, result, path);
+  };
+
+  return {
+    name: "devtools-tagged-json",
+    encode: (value) => encodeValue(value, [], new Map()),
+    decode: (value) => decodeValue(value, [], new Map()),
+  };
+}
+
+/**
+ * Codec used when no custom codec has been set
+ */
+export const defaultTransportCodec = createTransportCodec();
+
+let currentTransportCodec: TransportCodec = defaultTransportCodec;
+
+/**
+ * Get the codec used to encode payloads sent to the dashboard
+ */
+export const getTransportCodec = (): TransportCodec => currentTransportCodec;
+
+/**
+ * Set the codec used to encode payloads sent to the dashboard and decode
+ * payloads received from it. Call this before the sync hook mounts, since the
+ * codec name is sent when the socket connects.
+ *
+ * @example
+ * // Use superjson instead of the built-in codec
+ * setTransportCodec({
+ *   name: "superjson",
+ *   encode: (value) => superjson.serialize(value),
+ *   decode: (value) => superjson.deserialize(value as SuperJSONResult),
+ * });
+ */
+export const setTransportCodec = (codec: TransportCodec | null): void => {
+  currentTransportCodec = codec ?? defaultTransportCodec;
+};
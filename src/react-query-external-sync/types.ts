@@ -1,14 +1,16 @@
 import {
   DefaultError,
+  FetchStatus,
   MutationKey,
   MutationMeta,
   MutationScope,
   MutationState,
   QueryKey,
   QueryMeta,
-  QueryObserverOptions,
   QueryState,
 } from "@tanstack/react-query";
+import type { AppStateStatus } from "./platformUtils";
+import type { ReactQueryMajorVersion } from "./reactQueryCompat";
 // Define a simplified version of DehydratedState that both versions can work with
 export interface SimpleDehydratedState {
   mutations: unknown[];
@@ -19,6 +21,478 @@ export interface SyncMessage {
   type: "dehydrated-state";
   state: DehydratedState;
   isOnlineManagerOnline: boolean;
+  isFocusManagerFocused: boolean;
+  persistentDeviceId: string;
+  clientId: string; // Name of the QueryClient this state belongs to
+  seq: number; // Sequence number of the last delta included in this snapshot
+  reactQueryVersion: ReactQueryMajorVersion | null; // Fields of v4 are reported under their v5 names
+}
+
+/**
+ * Incremental query cache update sent after the initial snapshot.
+ * Deltas are numbered consecutively per client after the snapshot's `seq`; a
+ * gap means the dashboard missed an update and should send `request-initial-state`.
+ */
+export interface QuerySyncDeltaMessage {
+  type: "dehydrated-state-delta";
+  clientId: string;
+  seq: number;
+  added: DehydratedQuery[];
+  updated: DehydratedQuery[];
+  removed: string[]; // queryHash of each removed query
+  isOnlineManagerOnline: boolean;
+  isFocusManagerFocused: boolean;
+  persistentDeviceId: string;
+}
+
+/**
+ * Lifecycle stages of a mutation streamed to the dashboard
+ */
+export type MutationLifecycleStatus = "pending" | "success" | "error" | "settled";
+
+/**
+ * A single entry of the mutation timeline
+ */
+export interface MutationLifecycleEvent {
+  mutationId: number;
+  mutationKey?: MutationKey;
+  status: MutationLifecycleStatus;
+  variables: unknown;
+  context: unknown;
+  data?: unknown;
+  error: unknown;
+  failureCount: number;
+  submittedAt: number; // When the mutation was started
+  timestamp: number; // When this lifecycle stage was reached
+  duration?: number; // Time since submittedAt, for success, error and settled
+}
+
+/**
+ * Message structure for mutation lifecycle events from devices to dashboard
+ */
+export interface MutationSyncMessage {
+  type: "mutation-event";
+  clientId: string;
+  event: MutationLifecycleEvent;
+  persistentDeviceId: string;
+}
+
+/**
+ * Actions the dashboard can perform on a single mutation
+ */
+export type MutationActionType =
+  | "ACTION-MUTATION-RETRY" // Re-run a failed mutation with its variables
+  | "ACTION-MUTATION-REPLAY" // Run a finished mutation again as a new mutation
+  | "ACTION-MUTATION-REMOVE"; // Remove the mutation from the cache
+
+/**
+ * Message structure for mutation actions from dashboard to devices
+ */
+export interface MutationActionMessage {
+  action: MutationActionType;
+  mutationId: number;
+  targetDeviceId: string;
+  clientId?: string; // Defaults to the first registered QueryClient
+  actionId: string; // Echoed back in the action result
+  variables?: unknown; // Replacement variables for ACTION-MUTATION-REPLAY
+}
+
+/**
+ * Result data of a successful mutation action, sent as the `data` of its action result
+ */
+export interface MutationActionOutcome {
+  resultMutationId?: number; // Mutation that ran, a new one for ACTION-MUTATION-REPLAY
+  data?: unknown; // What the mutation resolved with
+}
+
+/**
+ * Query cache events kept in the device's event history
+ */
+export type QueryHistoryEventType =
+  | "added"
+  | "removed"
+  | "updated"
+  | "observerAdded"
+  | "observerRemoved"
+  | "observerOptionsUpdated";
+
+/**
+ * A single query cache event, used to build per-query timelines
+ */
+export interface QueryHistoryEntry {
+  id: number; // Increases with every recorded event
+  clientId: string;
+  queryHash: string;
+  queryKey: QueryKey;
+  type: QueryHistoryEventType;
+  actionType?: string; // Action of "updated" events, e.g. fetch, success, invalidate
+  status: QueryState["status"]; // Query status after the event
+  fetchStatus: QueryState["fetchStatus"]; // Fetch status after the event
+  observerCount: number;
+  timestamp: number;
+}
+
+/**
+ * Message structure for new query history entries from devices to dashboard
+ */
+export interface QueryHistorySyncMessage {
+  type: "query-history-events";
+  entries: QueryHistoryEntry[];
+  persistentDeviceId: string;
+}
+
+/**
+ * Message structure for the recorded query history from devices to dashboard
+ */
+export interface QueryHistoryBacklogMessage {
+  type: "query-history-backlog";
+  entries: QueryHistoryEntry[];
+  persistentDeviceId: string;
+}
+
+/**
+ * Message structure for requesting the recorded query history
+ */
+export interface QueryHistoryRequestMessage {
+  type: "request-query-history";
+  targetDeviceId: string;
+  clientId?: string; // Only entries of this client
+  queryHash?: string; // Only entries of this query
+}
+
+/**
+ * What started a fetch, as far as can be told from the cache events
+ */
+export type QueryFetchCause =
+  | "manual" // Refetch or page fetch requested by the dashboard
+  | "focus" // Window focus refetch
+  | "reconnect" // Refetch after the device came back online
+  | "invalidate" // Refetch of an invalidated query
+  | "mount" // Fetch of an observer that just mounted
+  | "interval" // Refetch of an observer with a refetchInterval
+  | "other"; // refetch() or fetchQuery from the app, or anything else
+
+/**
+ * Fetch statistics of a single query
+ */
+export interface QueryMetrics {
+  clientId: string;
+  queryHash: string;
+  queryKey: QueryKey;
+  fetchCount: number;
+  successCount: number;
+  errorCount: number;
+  errorRate: number; // errorCount / finished fetches, 0 when nothing finished yet
+  lastFetchDuration?: number;
+  averageFetchDuration?: number;
+  p95FetchDuration?: number; // Over the most recent fetches
+  staleDuration: number; // Total time the data was stale before being refetched
+  observerCount: number;
+  maxObserverCount: number;
+  observerCountSamples: { timestamp: number; count: number }[]; // Most recent changes
+  fetchCauses: Record<QueryFetchCause, number>;
+}
+
+/**
+ * Message structure for query metrics from devices to dashboard
+ */
+export interface QueryMetricsSyncMessage {
+  type: "query-metrics";
+  metrics: QueryMetrics[];
+  persistentDeviceId: string;
+}
+
+/**
+ * Message structure for requesting query metrics
+ */
+export interface QueryMetricsRequestMessage {
+  type: "request-query-metrics";
+  targetDeviceId: string;
+  clientId?: string; // Only metrics of this client
+  queryHash?: string; // Only metrics of this query
+}
+
+/**
+ * Error the dashboard asks the device to rebuild, for ACTION-TRIGGER-ERROR and mock rules
+ */
+export interface QueryErrorDescription {
+  factoryId?: string; // Id of an error factory registered with setErrorFactories
+  name?: string;
+  message?: string;
+  status?: number; // e.g. an HTTP status
+  fields?: Record<string, unknown>; // Transport-encoded, copied onto the error, e.g. code or validation errors
+}
+
+/**
+ * Dashboard-defined rule resolving matching queries with mock results instead of their queryFn.
+ * A query matches when it starts with `queryKey` (or equals it with `exact`) and
+ * its queryHash matches `pattern`; a rule with neither matches every query.
+ */
+export interface QueryMockRule {
+  id: string;
+  clientId?: string; // Only queries of this client, all clients when omitted
+  queryKey?: QueryKey; // Query key prefix
+  exact?: boolean; // Match queryKey exactly instead of as a prefix
+  pattern?: string; // Regular expression tested against the queryHash
+  enabled: boolean;
+  data?: unknown; // Transport-encoded data to resolve with
+  error?: QueryErrorDescription; // Error to reject with, takes precedence over data
+  delay?: number; // Milliseconds to wait before resolving; calls the real queryFn when neither data nor error is set
+}
+
+/**
+ * Actions the dashboard can perform on mock rules
+ */
+export type QueryMockActionType =
+  | "ACTION-MOCK-SET" // Add a rule or replace the rule with the same id
+  | "ACTION-MOCK-TOGGLE" // Enable or disable a rule
+  | "ACTION-MOCK-REMOVE" // Remove a rule
+  | "ACTION-MOCK-CLEAR"; // Remove every rule
+
+/**
+ * Message structure for mock rule actions from dashboard to devices
+ */
+export interface QueryMockActionMessage {
+  action: QueryMockActionType;
+  targetDeviceId: string;
+  rule?: QueryMockRule; // For ACTION-MOCK-SET
+  ruleId?: string; // For ACTION-MOCK-TOGGLE and ACTION-MOCK-REMOVE
+  enabled?: boolean; // For ACTION-MOCK-TOGGLE
+  actionId?: string; // Echoed back in the action result
+}
+
+/**
+ * Message structure for the current mock rules from devices to dashboard
+ */
+export interface QueryMocksSyncMessage {
+  type: "query-mocks";
+  rules: QueryMockRule[];
+  persistentDeviceId: string;
+}
+
+/**
+ * Message structure for requesting the current mock rules
+ */
+export interface QueryMocksRequestMessage {
+  type: "request-query-mocks";
+  targetDeviceId: string;
+}
+
+/**
+ * Message structure for focus and app state changes from devices to dashboard.
+ * Sent when the socket connects and on every focusManager or AppState change.
+ */
+export interface AppStateSyncMessage {
+  type: "app-state";
+  appState: AppStateStatus | null; // null outside React Native
+  isFocusManagerFocused: boolean;
+  timestamp: number;
+  persistentDeviceId: string;
+}
+
+/**
+ * RFC 6902 JSON Patch operation, `path` and `from` are RFC 6901 JSON Pointers.
+ * Values are transport-encoded.
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+/**
+ * Actions the dashboard can perform on every query matching a filter at once
+ */
+export type BulkQueryActionType =
+  | "ACTION-BULK-INVALIDATE" // Invalidate, refetching the active ones
+  | "ACTION-BULK-REFETCH" // Refetch without invalidating
+  | "ACTION-BULK-RESET" // Reset to the initial state
+  | "ACTION-BULK-REMOVE" // Remove from the cache
+  | "ACTION-BULK-CANCEL"; // Cancel in-flight fetches
+
+/**
+ * Serializable subset of React Query's QueryFilters
+ */
+export interface BulkQueryFilters {
+  queryKey?: QueryKey; // Query key prefix
+  exact?: boolean; // Match queryKey exactly instead of as a prefix
+  type?: "all" | "active" | "inactive";
+  stale?: boolean;
+  fetchStatus?: FetchStatus;
+}
+
+/**
+ * Message structure for bulk query actions from dashboard to devices.
+ * The action result's data is `{ queryHashes }`, the hashes of the affected queries.
+ */
+export interface BulkQueryActionMessage {
+  action: BulkQueryActionType;
+  filters?: BulkQueryFilters; // Every query when omitted
+  targetDeviceId: string;
+  clientId?: string; // Defaults to the first registered QueryClient
+  actionId?: string; // Echoed back in the action result
+}
+
+/**
+ * Editable defaults of a query client. Option values are transport-encoded and
+ * limited to staleTime, gcTime, retry, refetchInterval, refetchOnWindowFocus,
+ * refetchOnReconnect, refetchOnMount and networkMode (gcTime, retry and
+ * networkMode for mutations).
+ */
+export interface QueryDefaultsState {
+  defaultOptions: {
+    queries: Record<string, unknown>;
+    mutations: Record<string, unknown>;
+  };
+  // Merged setQueryDefaults entries of the requested and the edited keys
+  queryDefaults: { queryKey: QueryKey; options: Record<string, unknown>; isModified: boolean }[];
+  // Merged setMutationDefaults entries of the requested and the edited keys
+  mutationDefaults: {
+    mutationKey: MutationKey;
+    options: Record<string, unknown>;
+    isModified: boolean;
+  }[];
+  isModified: boolean; // Whether anything was changed from the dashboard
+}
+
+/**
+ * Actions the dashboard can perform on a query client's defaults
+ */
+export type QueryDefaultsActionType =
+  | "ACTION-SET-DEFAULT-OPTIONS" // Merge `queries`/`mutations` into setDefaultOptions
+  | "ACTION-SET-QUERY-DEFAULTS" // Merge `options` into setQueryDefaults(queryKey)
+  | "ACTION-SET-MUTATION-DEFAULTS" // Merge `options` into setMutationDefaults(mutationKey)
+  | "ACTION-REVERT-DEFAULTS"; // Restore every changed value
+
+/**
+ * Message structure for defaults actions from dashboard to devices
+ */
+export interface QueryDefaultsActionMessage {
+  action: QueryDefaultsActionType;
+  targetDeviceId: string;
+  clientId?: string; // Defaults to the first registered QueryClient
+  actionId?: string; // Echoed back in the action result
+  queries?: Record<string, unknown>; // Transport-encoded, for ACTION-SET-DEFAULT-OPTIONS
+  mutations?: Record<string, unknown>; // Transport-encoded, for ACTION-SET-DEFAULT-OPTIONS
+  queryKey?: QueryKey; // For ACTION-SET-QUERY-DEFAULTS
+  mutationKey?: MutationKey; // For ACTION-SET-MUTATION-DEFAULTS
+  options?: Record<string, unknown>; // Transport-encoded, for ACTION-SET-QUERY-DEFAULTS and ACTION-SET-MUTATION-DEFAULTS
+}
+
+/**
+ * Message structure for a query client's defaults from devices to dashboard
+ */
+export interface QueryDefaultsSyncMessage {
+  type: "query-defaults";
+  clientId: string;
+  state: QueryDefaultsState;
+  persistentDeviceId: string;
+}
+
+/**
+ * Message structure for requesting the defaults of the query clients
+ */
+export interface QueryDefaultsRequestMessage {
+  type: "request-query-defaults";
+  targetDeviceId: string;
+  clientId?: string; // Only this client, every client when omitted
+  queryKeys?: QueryKey[]; // setQueryDefaults entries to include
+  mutationKeys?: MutationKey[]; // setMutationDefaults entries to include
+}
+
+/**
+ * Named capture of a query client's cache and, optionally, the storage contents
+ */
+export interface CacheSnapshot {
+  name: string;
+  createdAt: number;
+  clientId: string; // Client the snapshot was captured from
+  state: DehydratedState; // Same format as the query-sync state, already redacted
+  storage?: AsyncStorageItem[]; // Redacted, transport-encoded storage items
+  redacted?: CacheSnapshotRedactions; // Left out when restoring the snapshot
+}
+
+/**
+ * What was redacted when a snapshot was captured. Restoring skips these, so
+ * redacted placeholders never overwrite the real values on the device.
+ */
+export interface CacheSnapshotRedactions {
+  queryHashes: string[]; // Queries whose key, data, meta or fetch meta were redacted
+  storageKeys: string[]; // Storage items whose value was redacted
+}
+
+/**
+ * Actions the dashboard can perform with cache snapshots
+ */
+export type CacheSnapshotActionType =
+  | "ACTION-SNAPSHOT-CAPTURE" // Capture a snapshot, sent back as a cache-snapshot message
+  | "ACTION-SNAPSHOT-RESTORE"; // Hydrate a snapshot into the query client
+
+/**
+ * Message structure for cache snapshot actions from dashboard to devices
+ */
+export interface CacheSnapshotActionMessage {
+  action: CacheSnapshotActionType;
+  targetDeviceId: string;
+  clientId?: string; // Defaults to the first registered QueryClient
+  actionId?: string; // Echoed back in the action result
+  name?: string; // Name of the snapshot to capture
+  includeStorage?: boolean; // Capture or restore the storage contents too
+  snapshot?: CacheSnapshot; // Snapshot to restore
+}
+
+/**
+ * Message structure for a captured snapshot from devices to dashboard
+ */
+export interface CacheSnapshotMessage {
+  type: "cache-snapshot";
+  snapshot: CacheSnapshot;
+  persistentDeviceId: string;
+}
+
+/**
+ * Why a dashboard action failed
+ */
+export type ActionFailureReason =
+  | "invalid-message" // A field the action needs is missing
+  | "query-client-not-found" // No QueryClient is registered under the given clientId
+  | "query-not-found" // No query with the given queryHash
+  | "mutation-not-found" // No mutation with the given mutationId
+  | "mock-rule-not-found" // No mock rule with the given ruleId
+  | "patch-failed" // A JSON Patch operation did not apply to the live data, nothing was changed
+  | "not-infinite-query" // A page action targeted a query without pages, or one that cannot fetch them
+  | "storage-not-configured" // No storage was passed to the hook; the action is forwarded to the app
+  | "unsupported-action" // The action is not one the device knows
+  | "handler-threw"; // The action failed while being executed
+
+/**
+ * Outcome of a dashboard action.
+ * Sent through the socket.io acknowledgement callback when the dashboard
+ * emits with one, and as an `action-result` message when the action carries an actionId.
+ */
+export interface ActionResultMessage {
+  type: "action-result";
+  event: string; // Socket event the action was received on, e.g. "query-action"
+  action: string;
+  actionId?: string;
+  status: "success" | "error";
+  reason?: ActionFailureReason;
+  error?: string;
+  data?: unknown;
+  persistentDeviceId: string;
+}
+
+/**
+ * Sent after the messages queued while disconnected were flushed
+ */
+export interface OutboxFlushMessage {
+  type: "outbox-flush";
+  flushed: number; // Queued messages sent, in the order they were emitted
+  droppedOverflow: number; // Messages dropped because the outbox was full
+  droppedExpired: number; // Messages dropped because they were older than maxAge
+  coalesced: number; // Storage snapshots replaced by a newer snapshot
   persistentDeviceId: string;
 }
 
@@ -43,22 +517,73 @@ export interface DehydratedQuery {
   meta?: QueryMeta;
   observers: ObserverState[];
   gcTime?: number;
+  isInfinite: boolean; // Built by useInfiniteQuery or fetchInfiniteQuery
+  infinite?: InfiniteQueryInfo; // Set for infinite queries
+  dataInfo?: QueryDataInfo; // Set when lazyData or maxInlineDataSize is used and the query has data
+  frozenAt?: number; // Set while the dashboard keeps the query frozen
 }
-export interface ObserverState<
-  TQueryFnData = unknown,
-  TError = DefaultError,
-  TData = TQueryFnData,
-  TQueryData = TQueryFnData,
-  TQueryKey extends QueryKey = QueryKey
-> {
+
+/**
+ * Size and hash of a query's data, sent with the lazy data options
+ */
+export interface QueryDataInfo {
+  size: number; // Characters of the transport-encoded data
+  hash: string; // Hash of the transport-encoded data, changes whenever the data does
+  isLazy: boolean; // The data was left out of state, fetch it with request-query-data
+}
+
+/**
+ * Message structure for requesting the data of a query left out of sync messages
+ */
+export interface QueryDataRequestMessage {
+  type: "request-query-data";
+  targetDeviceId: string;
+  clientId?: string; // Query client owning the query, defaults to the first registered one
   queryHash: string;
-  options: QueryObserverOptions<
-    TQueryFnData,
-    TError,
-    TData,
-    TQueryData,
-    TQueryKey
-  >;
+  requestId?: string; // Echoed back in the response
+}
+
+/**
+ * Data of a single query, sent in response to request-query-data
+ */
+export interface QueryDataMessage {
+  type: "query-data";
+  clientId?: string;
+  queryHash: string;
+  requestId?: string;
+  data?: unknown; // Transport-encoded, after serializeData and redaction
+  dataInfo?: QueryDataInfo;
+  error?: string; // Set when the query client or query was not found
+  persistentDeviceId: string;
+}
+
+/**
+ * Pages of an infinite query, whose data is `{ pages, pageParams }`
+ */
+export interface InfiniteQueryInfo {
+  pageCount: number;
+  pageParams: unknown[]; // Transport-encoded
+  pageSizes: number[]; // Size of each page once encoded for transport, in characters
+}
+export interface ObserverState {
+  queryHash: string;
+  options: ObserverOptionsSummary;
+}
+
+/**
+ * Serializable summary of a query observer's options, with callbacks resolved
+ * against the query so the dashboard can show why it is or isn't fetching
+ */
+export interface ObserverOptionsSummary {
+  enabled: boolean; // False when disabled by the enabled option or a skipToken queryFn
+  staleTime: number; // Infinity is sent through the transport codec
+  refetchInterval: number | false;
+  refetchIntervalInBackground: boolean;
+  retry: boolean | number | "function"; // "function" when decided per failure
+  hasSelect: boolean;
+  hasPlaceholderData: boolean;
+  suspense: boolean;
+  throwOnError: boolean | "function"; // "function" when decided per error
 }
 
 export interface User {
@@ -96,6 +621,7 @@ export interface AsyncStorageActionMessage {
     targetDeviceId: string; // Device ID of the target device
     key?: string;
     value?: string;
+    actionId?: string; // Echoed back in the action result
 }
 
 // Message to request initial AsyncStorage state
@@ -223,6 +749,7 @@ export interface NetworkRequestMessage {
 export interface NetworkMonitoringActionMessage {
   action: "ACTION-ENABLE-NETWORK-MONITORING" | "ACTION-DISABLE-NETWORK-MONITORING";
   targetDeviceId: string;
+  actionId?: string; // Echoed back in the action result
 }
 
 /**
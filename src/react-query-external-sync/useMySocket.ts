@@ -1,7 +1,17 @@
 import { useEffect, useRef, useState } from "react";
 import { io as socketIO, Socket } from "socket.io-client";
 
-import { getPlatformSpecificURL, PlatformOS } from "./platformUtils";
+import {
+  getPlatformSpecificURL,
+  PlatformOS,
+  subscribeToAppState,
+} from "./platformUtils";
+import {
+  DEFAULT_RECONNECTION_OPTIONS,
+  getReconnectDelay,
+  ReconnectionOptions,
+} from "./reconnection";
+import { getTransportCodec } from "./transportCodec";
 import { log } from "./utils/logger";
 
 interface Props {
@@ -15,6 +25,12 @@ interface Props {
    * @default false
    */
   enableLogs?: boolean;
+  /**
+   * Reconnect automatically with exponential backoff when the connection drops or fails,
+   * false to only reconnect through connect()
+   * @default {} (enabled with the default options)
+   */
+  reconnection?: ReconnectionOptions | false;
 }
 
 /**
@@ -32,6 +48,7 @@ let currentSocketURL = "";
  * - Platform-specific URL handling for iOS/Android/Web
  * - Device name identification
  * - Connection state tracking
+ * - Automatic reconnection with backoff
  * - User list management
  */
 export function useMySocket({
@@ -41,11 +58,22 @@ export function useMySocket({
   extraDeviceInfo,
   platform,
   enableLogs = false,
+  reconnection = {},
 }: Props) {
   const socketRef = useRef<Socket | null>(null);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const initialized = useRef(false);
+  // Reconnect attempts since the connection was lost, 0 while connected
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  // When the next attempt is scheduled, null if none is
+  const [nextReconnectAt, setNextReconnectAt] = useState<number | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set by disconnect() so a manual disconnect is not undone
+  const manuallyDisconnectedRef = useRef(false);
+  const reconnectionRef = useRef(reconnection);
+  reconnectionRef.current = reconnection;
 
   // For logging clarity
   const logPrefix = `[${deviceName}]`;
@@ -109,6 +137,7 @@ export function useMySocket({
             deviceName,
             deviceId: persistentDeviceId,
             platform,
+            codec: getTransportCodec().name, // Tells the dashboard how to decode payloads
             ...(extraDeviceInfo && Object.keys(extraDeviceInfo).length > 0
               ? { extraDeviceInfo: JSON.stringify(extraDeviceInfo) }
               : {}),
@@ -209,6 +238,7 @@ export function useMySocket({
             deviceName,
             deviceId: persistentDeviceId,
             platform,
+            codec: getTransportCodec().name,
           },
           reconnection: false,
           transports: ["websocket"], // Prefer websocket transport for React Native
@@ -233,10 +263,106 @@ export function useMySocket({
     enableLogs,
   ]);
 
+  const cancelReconnect = () => {
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    setNextReconnectAt(null);
+  };
+
+  const resetReconnectAttempts = () => {
+    cancelReconnect();
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+  };
+
+  // Reconnect with exponential backoff whenever the connection drops or an attempt fails
+  useEffect(() => {
+    if (!socket) {
+      return;
+    }
+
+    const scheduleReconnect = () => {
+      const options = reconnectionRef.current;
+      if (
+        options === false ||
+        manuallyDisconnectedRef.current ||
+        reconnectTimerRef.current !== null ||
+        socket.connected
+      ) {
+        return;
+      }
+      const resolvedOptions = { ...DEFAULT_RECONNECTION_OPTIONS, ...options };
+      if (reconnectAttemptRef.current >= resolvedOptions.maxAttempts) {
+        log(
+          `${logPrefix} Giving up reconnecting after ${reconnectAttemptRef.current} attempts`,
+          enableLogs,
+          "warn"
+        );
+        setNextReconnectAt(null);
+        return;
+      }
+      const attempt = reconnectAttemptRef.current + 1;
+      const delay = getReconnectDelay(attempt, resolvedOptions);
+      reconnectAttemptRef.current = attempt;
+      setReconnectAttempt(attempt);
+      setNextReconnectAt(Date.now() + delay);
+      log(`${logPrefix} Reconnect attempt ${attempt} in ${delay}ms`, enableLogs);
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        setNextReconnectAt(null);
+        socket.connect();
+      }, delay);
+    };
+
+    const onReconnected = () => {
+      resetReconnectAttempts();
+    };
+
+    const onConnectionLost = (reason: string) => {
+      // Only disconnect() closes the connection on purpose
+      if (reason !== "io client disconnect") {
+        scheduleReconnect();
+      }
+    };
+
+    const unsubscribeAppState = subscribeToAppState((appState) => {
+      const options = reconnectionRef.current;
+      if (
+        appState !== "active" ||
+        options === false ||
+        !(options.reconnectOnForeground ?? true) ||
+        manuallyDisconnectedRef.current ||
+        socket.connected
+      ) {
+        return;
+      }
+      log(`${logPrefix} Back in the foreground, reconnecting`, enableLogs);
+      // Start over, the network may well be back
+      resetReconnectAttempts();
+      socket.connect();
+    });
+
+    socket.on("connect", onReconnected);
+    socket.on("disconnect", onConnectionLost);
+    socket.on("connect_error", scheduleReconnect);
+
+    return () => {
+      socket.off("connect", onReconnected);
+      socket.off("disconnect", onConnectionLost);
+      socket.off("connect_error", scheduleReconnect);
+      unsubscribeAppState();
+      cancelReconnect();
+    };
+  }, [socket]);
+
   /**
    * Manually connect to the socket server
    */
   function connect() {
+    manuallyDisconnectedRef.current = false;
+    resetReconnectAttempts();
     if (socketRef.current && !socketRef.current.connected) {
       log(`${logPrefix} Manually connecting to socket server`, enableLogs);
       socketRef.current.connect();
@@ -247,6 +373,8 @@ export function useMySocket({
    * Manually disconnect from the socket server
    */
   function disconnect() {
+    manuallyDisconnectedRef.current = true;
+    resetReconnectAttempts();
     if (socketRef.current && socketRef.current.connected) {
       log(`${logPrefix} Manually disconnecting from socket server`, enableLogs);
       socketRef.current.disconnect();
@@ -258,5 +386,7 @@ export function useMySocket({
     connect,
     disconnect,
     isConnected,
+    reconnectAttempt,
+    nextReconnectAt,
   };
 }
@@ -1,10 +1,51 @@
 import { useEffect, useRef } from "react";
-import type { QueryKey } from "@tanstack/query-core";
-import { onlineManager, QueryClient } from "@tanstack/react-query";
+import type { MutationKey, QueryKey } from "@tanstack/query-core";
+import { focusManager, onlineManager, QueryClient } from "@tanstack/react-query";
 
 import { log } from "./utils/logger";
-import { Dehydrate } from "./hydration";
-import { PlatformOS } from "./platformUtils";
+import {
+  Dehydrate,
+  dehydrateQueryData,
+  DehydrateContext,
+  DehydrateOptions,
+  Hydrate,
+  HydrateOptions,
+  redactQueryKey,
+} from "./hydration";
+import { createQueryDeltaTracker } from "./queryDeltaSync";
+import { getMutationLifecycleEvents } from "./mutationSync";
+import { createQueryEventHistory, QueryEventHistory } from "./queryEventHistory";
+import { createQueryFreezeRegistry, QueryFreezeRegistry } from "./queryFreeze";
+import {
+  fetchWithoutInterceptors,
+  installQueryFetchInterceptors,
+} from "./queryFetchInterceptors";
+import { createQueryMetricsCollector, QueryMetricsCollector } from "./queryMetrics";
+import {
+  createQueryMockRegistry,
+  matchesMockRule,
+  QueryMockRegistry,
+} from "./queryMocks";
+import { getTransportCodec } from "./transportCodec";
+import { createErrorFromDescription } from "./errorFactories";
+import {
+  dropInfinitePages,
+  fetchInfiniteQueryPage,
+  isInfiniteData,
+  isInfiniteQuery,
+  updateInfinitePage,
+} from "./infiniteQueries";
+import { applyJsonPatch, assertPatchablePaths } from "./jsonPatch";
+import { getQueryDataInfo } from "./queryDataInfo";
+import { ReconnectionOptions } from "./reconnection";
+import { createOutbox, MessageEmitter, Outbox, OutboxOptions } from "./outbox";
+import {
+  PENDING_STATUS,
+  reactQueryVersion,
+  toClientOptions,
+} from "./reactQueryCompat";
+import { createRedaction, Redaction, RedactionOptions } from "./redaction";
+import { getAppState, PlatformOS, subscribeToAppState } from "./platformUtils";
 import {
   setupFetchInterceptor,
   setupXHRInterceptor,
@@ -14,7 +55,33 @@ import {
   AsyncStorageActionMessage,
   AsyncStorageRequestMessage,
   SyncMessage,
+  QuerySyncDeltaMessage,
+  MutationSyncMessage,
+  MutationActionMessage,
+  BulkQueryActionMessage,
+  QueryDefaultsActionMessage,
+  QueryDefaultsSyncMessage,
+  QueryDefaultsRequestMessage,
+  QueryHistorySyncMessage,
+  QueryHistoryBacklogMessage,
+  QueryHistoryRequestMessage,
+  QueryMetricsSyncMessage,
+  QueryMetricsRequestMessage,
+  QueryDataRequestMessage,
+  QueryDataMessage,
+  OutboxFlushMessage,
+  QueryErrorDescription,
+  JsonPatchOperation,
+  QueryMockActionMessage,
+  QueryMockRule,
+  QueryMocksSyncMessage,
+  QueryMocksRequestMessage,
   AsyncStorageSyncMessage,
+  AsyncStorageItem,
+  CacheSnapshot,
+  CacheSnapshotActionMessage,
+  CacheSnapshotMessage,
+  AppStateSyncMessage,
   AsyncStorageState,
   NetworkRequest,
   NetworkRequestSyncMessage,
@@ -28,6 +95,10 @@ import {
   ExpoDevToolsRequestMessage
 } from "./expoDevToolsTypes";
 import { executeExpoCommand } from "./executeExpoCommand";
+import { executeMutationAction } from "./executeMutationAction";
+import { executeBulkQueryAction } from "./executeBulkQueryAction";
+import { getQueryDefaultsEditor } from "./queryDefaults";
+import { ActionAck, createActionResponder } from "./actionResults";
 import { useMySocket } from "./useMySocket";
 
 /**
@@ -40,7 +111,18 @@ type QueryActions =
   | "ACTION-INVALIDATE" // Invalidate a query and trigger a refetch
   | "ACTION-RESET" // Reset a query to its initial state
   | "ACTION-REMOVE" // Remove a query from the cache
+  | "ACTION-CANCEL" // Cancel an in-flight fetch, reverting to the previous state
+  | "ACTION-MARK-STALE" // Mark a query stale without refetching it
+  | "ACTION-FREEZE" // Keep the current data and block every fetch until unfrozen
+  | "ACTION-UNFREEZE" // Let a frozen query fetch again
+  | "ACTION-TIME-TRAVEL" // Rewrite dataUpdatedAt/errorUpdatedAt to simulate older data
   | "ACTION-DATA-UPDATE" // Update a query's data manually
+  | "ACTION-DATA-PATCH" // Update part of a query's data with JSON Patch operations
+  // Infinite query actions
+  | "ACTION-FETCH-NEXT-PAGE" // Fetch the page after the last one
+  | "ACTION-FETCH-PREVIOUS-PAGE" // Fetch the page before the first one
+  | "ACTION-DROP-PAGES" // Keep only the first page
+  | "ACTION-PAGE-UPDATE" // Replace the data of a single page
   // Error handling actions
   | "ACTION-TRIGGER-ERROR" // Manually trigger an error state
   | "ACTION-RESTORE-ERROR" // Restore from an error state
@@ -60,10 +142,17 @@ type QueryActions =
  */
 interface QueryActionMessage {
   queryHash: string; // Unique hash of the query
-  queryKey: QueryKey; // Key array used to identify the query
+  queryKey: QueryKey; // Key as sent to the dashboard, possibly redacted, queries are found by queryHash
   data: unknown; // Data payload (if applicable)
   action: QueryActions; // Action to perform
   targetDeviceId: string; // Device to target
+  clientId?: string; // Query client to target, defaults to the first registered one
+  error?: QueryErrorDescription; // Error to set with ACTION-TRIGGER-ERROR
+  patch?: JsonPatchOperation[]; // Operations for ACTION-DATA-PATCH, must not touch redacted or encoded values
+  pageIndex?: number; // Page to replace with ACTION-PAGE-UPDATE
+  dataUpdatedAt?: number; // New dataUpdatedAt for ACTION-TIME-TRAVEL
+  errorUpdatedAt?: number; // New errorUpdatedAt for ACTION-TIME-TRAVEL
+  actionId?: string; // Echoed back in the action result
 }
 
 /**
@@ -72,6 +161,19 @@ interface QueryActionMessage {
 interface OnlineManagerMessage {
   action: "ACTION-ONLINE-MANAGER-ONLINE" | "ACTION-ONLINE-MANAGER-OFFLINE";
   targetDeviceId: string; // Device ID to target ('All' || device)
+  actionId?: string; // Echoed back in the action result
+}
+
+/**
+ * Message structure for focus manager actions from dashboard to devices
+ */
+interface FocusManagerMessage {
+  action:
+    | "ACTION-FOCUS-MANAGER-FOCUSED" // Set the app focused
+    | "ACTION-FOCUS-MANAGER-UNFOCUSED" // Set the app unfocused
+    | "ACTION-FOCUS-MANAGER-RESET"; // Go back to the app's own focus detection
+  targetDeviceId: string; // Device ID to target ('All' || device)
+  actionId?: string; // Echoed back in the action result
 }
 
 /**
@@ -89,20 +191,47 @@ function shouldProcessMessage({
 }
 
 /**
- * Verifies if the React Query version is compatible with dev tools
+ * Name of the client passed through the `queryClient` option
  */
-function checkVersion(queryClient: QueryClient) {
-  // Basic version check
-  const version = (
-    queryClient as unknown as {
-      getDefaultOptions?: () => { queries?: { version?: unknown } };
-    }
-  ).getDefaultOptions?.()?.queries?.version;
+export const DEFAULT_QUERY_CLIENT_ID = "default";
+
+type QueryClientEntry = [clientId: string, queryClient: QueryClient];
+
+/**
+ * Collects the registered query clients into a list that keeps its identity
+ * across renders as long as the same clients are registered under the same
+ * names, so an inline queryClients object does not re-subscribe on every render
+ */
+function useQueryClientEntries(
+  queryClient?: QueryClient,
+  queryClients?: Record<string, QueryClient>
+): QueryClientEntry[] {
+  const entriesRef = useRef<QueryClientEntry[]>([]);
+  const entries: QueryClientEntry[] = [
+    ...(queryClient
+      ? [[DEFAULT_QUERY_CLIENT_ID, queryClient] as QueryClientEntry]
+      : []),
+    ...Object.entries(queryClients ?? {}),
+  ];
+
+  const previous = entriesRef.current;
   if (
-    version &&
-    !version.toString().startsWith("4") &&
-    !version.toString().startsWith("5")
+    entries.length !== previous.length ||
+    entries.some(
+      ([clientId, client], index) =>
+        previous[index][0] !== clientId || previous[index][1] !== client
+    )
   ) {
+    entriesRef.current = entries;
+  }
+  return entriesRef.current;
+}
+
+/**
+ * Verifies if the React Query version is compatible with dev tools
+ */
+function checkVersion() {
+  if (reactQueryVersion === null) {
     log(
       "This version of React Query has not been tested with the dev tools plugin. Some features might not work as expected.",
       true,
@@ -147,10 +276,15 @@ export interface ExpoDevToolsOptions {
 
 interface useSyncQueriesExternalProps {
   /**
-   * React Query client instance
-   * Optional: If not provided, React Query specific functionality will be disabled
+   * React Query client instance, registered as "default"
+   * Optional: If neither queryClient nor queryClients is provided, React Query specific functionality will be disabled
    */
   queryClient?: QueryClient;
+  /**
+   * Additional named React Query clients, e.g. for separate modules or embedded mini-apps
+   * Each sync message carries the client name and actions target a client by name
+   */
+  queryClients?: Record<string, QueryClient>;
   deviceName: string;
   /**
    * A unique identifier for this device that persists across app restarts.
@@ -191,6 +325,42 @@ interface useSyncQueriesExternalProps {
    * @default undefined (no Expo DevTools integration)
    */
   expoDevTools?: ExpoDevToolsOptions;
+  /**
+   * Options applied when dehydrating queries and mutations for the dashboard
+   * Use these to exclude queries or mutations, transform query data or redact errors
+   * @default undefined (everything is sent as-is)
+   */
+  dehydrateOptions?: DehydrateOptions;
+  /**
+   * Options applied when restoring a cache snapshot sent by the dashboard
+   * Use these to deserialize data transformed by dehydrateOptions.serializeData or to set default query options
+   * @default undefined
+   */
+  hydrateOptions?: HydrateOptions;
+  /**
+   * Redaction rules applied to query data, mutations, storage values and
+   * network requests before they are sent to the dashboard
+   * @default undefined (only Authorization, Cookie and Set-Cookie headers are redacted)
+   */
+  redaction?: RedactionOptions;
+  /**
+   * Number of query cache events kept on the device for the dashboard's query timeline
+   * Read once when the hook mounts; set to 0 to disable the history
+   * @default 500
+   */
+  queryHistoryLimit?: number;
+  /**
+   * Reconnect automatically with exponential backoff and jitter when the connection
+   * to the dashboard drops or fails, false to only reconnect through connect()
+   * @default {} (enabled with the default options)
+   */
+  reconnection?: ReconnectionOptions | false;
+  /**
+   * Queue sync messages and network requests while disconnected and send them once connected,
+   * false to drop them. Read once when the hook mounts
+   * @default {} (500 messages kept for up to 5 minutes)
+   */
+  outbox?: OutboxOptions | false;
 }
 
 /**
@@ -204,6 +374,7 @@ interface useSyncQueriesExternalProps {
  */
 export function useSyncQueriesExternal({
   queryClient,
+  queryClients,
   deviceName,
   socketURL,
   extraDeviceInfo,
@@ -212,6 +383,12 @@ export function useSyncQueriesExternal({
   enableLogs = false,
   storage,
   networkMonitoring,
+  dehydrateOptions,
+  hydrateOptions,
+  redaction,
+  queryHistoryLimit = 500,
+  reconnection,
+  outbox,
 }: useSyncQueriesExternalProps) {
   // ==========================================================
   // Validate deviceId
@@ -231,20 +408,119 @@ export function useSyncQueriesExternal({
   // Socket connection - Handles connection to the socket server and
   // event listeners for the socket server
   // ==========================================================
-  const { connect, disconnect, isConnected, socket } = useMySocket({
+  const {
+    connect,
+    disconnect,
+    isConnected,
+    socket,
+    reconnectAttempt,
+    nextReconnectAt,
+  } = useMySocket({
     deviceName,
     socketURL,
     persistentDeviceId: deviceId,
     extraDeviceInfo,
     platform,
     enableLogs,
+    reconnection,
   });
 
   // Use refs to track state and cleanup functions
   const prevConnectedRef = useRef(false);
+  // Set when the connection comes back, so the dashboard gets the full state without asking
+  const hasConnectedRef = useRef(false);
+  const pendingFullSyncRef = useRef(false);
   const removeFetchInterceptorRef = useRef<(() => void) | null>(null);
   const removeXHRInterceptorRef = useRef<(() => void) | null>(null);
   const removeWebSocketInterceptorRef = useRef<(() => void) | null>(null);
+  // Sequence number of the last query-sync message per client, lets the dashboard detect missed deltas
+  const querySyncSeqRef = useRef<Record<string, number>>({});
+  const queryClientEntries = useQueryClientEntries(queryClient, queryClients);
+  // Query cache events, recorded even while disconnected so the backlog covers app startup
+  const queryHistoryRef = useRef<QueryEventHistory | null>(null);
+  if (!queryHistoryRef.current) {
+    queryHistoryRef.current = createQueryEventHistory(queryHistoryLimit);
+  }
+  // Per-query fetch metrics, collected alongside the history
+  const queryMetricsRef = useRef<QueryMetricsCollector | null>(null);
+  if (!queryMetricsRef.current) {
+    queryMetricsRef.current = createQueryMetricsCollector();
+  }
+  // Mock rules set by the dashboard, kept across reconnects
+  const queryMocksRef = useRef<QueryMockRegistry | null>(null);
+  if (!queryMocksRef.current) {
+    queryMocksRef.current = createQueryMockRegistry();
+  }
+  // Queries frozen by the dashboard, kept across reconnects
+  const queryFreezeRef = useRef<QueryFreezeRegistry | null>(null);
+  if (!queryFreezeRef.current) {
+    queryFreezeRef.current = createQueryFreezeRegistry();
+  }
+  // Messages emitted while disconnected, sent once the socket connects
+  const outboxRef = useRef<Outbox | null>(null);
+  if (!outboxRef.current && outbox !== false) {
+    outboxRef.current = createOutbox(outbox);
+  }
+  // Redaction rules of this hook, reconfigured when the redaction option changes
+  const redactionRef = useRef<Redaction | null>(null);
+  if (!redactionRef.current) {
+    redactionRef.current = createRedaction(redaction);
+  }
+  const hookRedaction = redactionRef.current;
+  // Keep the latest dehydrate options without re-subscribing on every render
+  const dehydrateOptionsRef = useRef(dehydrateOptions);
+  dehydrateOptionsRef.current = dehydrateOptions;
+  // Dehydrate options together with the redaction of this hook
+  const getDehydrateContext = (): DehydrateContext => ({
+    ...dehydrateOptionsRef.current,
+    redaction: hookRedaction,
+  });
+  // History entries and metrics carry the key of their query
+  const redactQueryKeys = <TItem extends { queryKey: QueryKey }>(items: TItem[]) =>
+    items.map((item) => ({
+      ...item,
+      queryKey: redactQueryKey(item.queryKey, hookRedaction),
+    }));
+  const hydrateOptionsRef = useRef(hydrateOptions);
+  hydrateOptionsRef.current = hydrateOptions;
+
+  // Emit through the outbox so messages emitted while disconnected are not lost
+  const emitToDashboard = (event: string, message: unknown) => {
+    if (!socket) {
+      return;
+    }
+    if (outboxRef.current) {
+      outboxRef.current.emit(socket, event, message);
+    } else if (socket.connected) {
+      socket.emit(event, message);
+    }
+  };
+  const dashboardEmitter: MessageEmitter = { emit: emitToDashboard };
+
+  // Helper function to read every storage item, ready to be sent to the dashboard
+  const getStorageItems = async (
+    redactedKeys?: Set<string>
+  ): Promise<AsyncStorageItem[]> => {
+    if (!storage) {
+      return [];
+    }
+    const keys = await storage.getAllKeys();
+    const items: AsyncStorageItem[] = [];
+
+    for (const key of keys) {
+      const value = (await storage.getItem(key)) || '';
+      const redactedValue = hookRedaction.redactStorageValue(key, value);
+      if (redactedValue !== value) {
+        redactedKeys?.add(key);
+      }
+      // Encoded like every other payload; strings pass through unchanged
+      items.push({
+        key,
+        value: getTransportCodec().encode(redactedValue) as string,
+      });
+    }
+    return items;
+  };
 
   // Helper function to send storage state to the dashboard
   const sendStorageState = async () => {
@@ -253,13 +529,7 @@ export function useSyncQueriesExternal({
     }
 
     try {
-      const keys = await storage.getAllKeys();
-      const items = [];
-
-      for (const key of keys) {
-        const value = await storage.getItem(key);
-        items.push({ key, value: value || '' });
-      }
+      const items = await getStorageItems();
 
       const syncMessage: AsyncStorageSyncMessage = {
         type: "async-storage-state",
@@ -270,25 +540,162 @@ export function useSyncQueriesExternal({
         persistentDeviceId: deviceId
       };
 
-      socket.emit('async-storage-sync', syncMessage);
+      emitToDashboard('async-storage-sync', syncMessage);
       log(`${logPrefix} Sent storage state to dashboard (${items.length} items)`, enableLogs);
     } catch (error) {
       log(`${logPrefix} Error sending storage state: ${error}`, enableLogs, "error");
     }
   };
 
+  // Apply redaction rules before anything is sent to the dashboard
+  useEffect(() => {
+    hookRedaction.configure(redaction);
+  }, [redaction]);
+
+  // Record query cache events of every registered client into the history and metrics
+  useEffect(() => {
+    const history = queryHistoryRef.current;
+    const metrics = queryMetricsRef.current;
+    if (!history || !metrics) {
+      return;
+    }
+    const unsubscribes = queryClientEntries.map(([clientId, client]) =>
+      client.getQueryCache().subscribe((event) => {
+        history.record(clientId, event);
+        metrics.record(clientId, event);
+      })
+    );
+    // Focus and reconnect refetches follow these events, so the metrics can attribute them
+    const unsubscribeFocus = focusManager.subscribe((focused) => {
+      if (focused) {
+        metrics.recordFocus();
+      }
+    });
+    const unsubscribeOnline = onlineManager.subscribe((online) => {
+      if (online) {
+        metrics.recordReconnect();
+      }
+    });
+    return () => {
+      unsubscribes.forEach((unsubscribeCache) => unsubscribeCache());
+      unsubscribeFocus();
+      unsubscribeOnline();
+    };
+  }, [queryClientEntries]);
+
+  // Resolve queries matching the dashboard's mock rules with mock results
+  // and block fetches of frozen queries
+  useEffect(() => {
+    const mocks = queryMocksRef.current;
+    const freezes = queryFreezeRef.current;
+    if (!mocks || !freezes) {
+      return;
+    }
+    // A frozen query is not fetched at all, so freezing comes before mocking
+    const uninstalls = queryClientEntries.map(([clientId, client]) =>
+      installQueryFetchInterceptors(clientId, client, [
+        freezes.interceptor,
+        mocks.interceptor,
+      ])
+    );
+    return () => {
+      uninstalls.forEach((uninstall) => uninstall());
+    };
+  }, [queryClientEntries]);
+
+  // Send what was queued while disconnected as soon as the socket connects,
+  // before anything else is emitted
+  useEffect(() => {
+    const queuedMessages = outboxRef.current;
+    if (!socket || !queuedMessages) {
+      return;
+    }
+    const flushOutbox = () => {
+      const result = queuedMessages.flush(socket);
+      if (
+        result.flushed === 0 &&
+        result.droppedOverflow === 0 &&
+        result.droppedExpired === 0
+      ) {
+        return;
+      }
+      log(
+        `${logPrefix} Sent ${result.flushed} queued messages (dropped ${result.droppedOverflow} over the limit, ${result.droppedExpired} expired)`,
+        enableLogs
+      );
+      const flushMessage: OutboxFlushMessage = {
+        type: "outbox-flush",
+        ...result,
+        persistentDeviceId: deviceId,
+      };
+      emitToDashboard("outbox-flush", flushMessage);
+    };
+    if (socket.connected) {
+      flushOutbox();
+    }
+    socket.on("connect", flushOutbox);
+    return () => {
+      socket.off("connect", flushOutbox);
+    };
+  }, [socket]);
+
+  // ==========================================================
+  // Network Monitoring - Set up interceptors if enabled, from app startup
+  // so requests made before the dashboard connects reach the outbox
+  // ==========================================================
   useEffect(() => {
-    // Check React Query version if queryClient is provided
-    if (queryClient) {
-      checkVersion(queryClient);
+    if (!socket || !networkMonitoring) {
+      return;
+    }
+    // Set up fetch interceptor if enabled
+    if (networkMonitoring.fetch) {
+      log(`${logPrefix} Setting up fetch interceptor`, enableLogs);
+      removeFetchInterceptorRef.current = setupFetchInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
+    }
+
+    // Set up XHR interceptor if enabled
+    if (networkMonitoring.xhr) {
+      log(`${logPrefix} Setting up XHR interceptor`, enableLogs);
+      removeXHRInterceptorRef.current = setupXHRInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
+    }
+
+    // Set up WebSocket interceptor if enabled
+    if (networkMonitoring.websocket) {
+      log(`${logPrefix} Setting up WebSocket interceptor`, enableLogs);
+      removeWebSocketInterceptorRef.current = setupWebSocketInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
     }
 
+    return () => {
+      // Clean up network interceptors
+      if (removeFetchInterceptorRef.current) {
+        removeFetchInterceptorRef.current();
+        removeFetchInterceptorRef.current = null;
+      }
+
+      if (removeXHRInterceptorRef.current) {
+        removeXHRInterceptorRef.current();
+        removeXHRInterceptorRef.current = null;
+      }
+
+      if (removeWebSocketInterceptorRef.current) {
+        removeWebSocketInterceptorRef.current();
+        removeWebSocketInterceptorRef.current = null;
+      }
+    };
+  }, [socket, deviceId, networkMonitoring, enableLogs]);
+
+  useEffect(() => {
+    // Check the installed React Query version
+    checkVersion();
+
     // Only log connection state changes to reduce noise
     if (prevConnectedRef.current !== isConnected) {
       if (!isConnected) {
         log(`${logPrefix} Not connected to external dashboard`, enableLogs);
       } else {
         log(`${deviceName} Connected to external dashboard`, enableLogs);
+        pendingFullSyncRef.current = hasConnectedRef.current;
+        hasConnectedRef.current = true;
       }
       prevConnectedRef.current = isConnected;
     }
@@ -302,46 +709,135 @@ export function useSyncQueriesExternal({
     // Event Handlers
     // ==========================================================
 
+    /**
+     * Register a handler and return a function removing only that handler.
+     * socket.on returns the socket itself, whose off() would also remove the
+     * reconnection and outbox listeners registered elsewhere.
+     */
+    const listen = <TArgs extends unknown[]>(
+      event: string,
+      handler: (...args: TArgs) => void
+    ) => {
+      socket.on(event, handler);
+      return () => {
+        socket.off(event, handler);
+      };
+    };
+
     // ==========================================================
     // React Query specific event handlers
     // ==========================================================
     let initialStateSubscription;
     let queryActionSubscription;
+    let bulkQueryActionSubscription;
+    let queryDefaultsActionSubscription;
+    let queryDefaultsRequestSubscription;
+    let cacheSnapshotActionSubscription;
+    let mutationActionSubscription;
+    let queryHistoryRequestSubscription;
+    let queryMetricsRequestSubscription;
+    let queryDataRequestSubscription;
+    let queryMockActionSubscription;
+    let queryMocksRequestSubscription;
     let onlineManagerSubscription;
+    let focusManagerSubscription;
     let unsubscribe = () => {}; // Default no-op function
 
-    // Only set up React Query specific handlers if queryClient is provided
-    if (queryClient) {
+    // Only set up React Query specific handlers if a query client is registered
+    if (queryClientEntries.length > 0) {
+      /**
+       * Find the client a dashboard message targets, defaulting to the first one
+       */
+      const resolveQueryClient = (clientId?: string) =>
+        clientId === undefined
+          ? queryClientEntries[0]
+          : queryClientEntries.find(([id]) => id === clientId);
+
+      // ==========================================================
+      // Delta trackers - Batch query cache events of each client into delta messages
+      // ==========================================================
+      const deltaTrackers = new Map(
+        queryClientEntries.map(([clientId]) => [
+          clientId,
+          createQueryDeltaTracker((delta) => {
+            if (!deviceId) {
+              log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+              return;
+            }
+            const seq = (querySyncSeqRef.current[clientId] ?? 0) + 1;
+            querySyncSeqRef.current[clientId] = seq;
+            const deltaMessage: QuerySyncDeltaMessage = {
+              type: "dehydrated-state-delta",
+              clientId,
+              seq,
+              ...delta,
+              added: queryFreezeRef.current?.annotate(clientId, delta.added) ?? delta.added,
+              updated:
+                queryFreezeRef.current?.annotate(clientId, delta.updated) ?? delta.updated,
+              isOnlineManagerOnline: onlineManager.isOnline(),
+              isFocusManagerFocused: focusManager.isFocused(),
+              persistentDeviceId: deviceId,
+            };
+            emitToDashboard("query-sync-delta", deltaMessage);
+          }, getDehydrateContext),
+        ])
+      );
+
       // ==========================================================
       // Handle initial state requests from dashboard
       // ==========================================================
-      initialStateSubscription = socket.on("request-initial-state", () => {
+      const sendFullState = () => {
         if (!deviceId) {
           log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
           return;
         }
+        queryClientEntries.forEach(([clientId, client]) => {
+          const dehydratedState = Dehydrate(
+            client as unknown as QueryClient,
+            getDehydrateContext()
+          );
+          // The snapshot already contains every pending change
+          deltaTrackers.get(clientId)?.reset();
+          const syncMessage: SyncMessage = {
+            type: "dehydrated-state",
+            state: {
+              ...dehydratedState,
+              queries:
+                queryFreezeRef.current?.annotate(clientId, dehydratedState.queries) ??
+                dehydratedState.queries,
+            },
+            isOnlineManagerOnline: onlineManager.isOnline(),
+            isFocusManagerFocused: focusManager.isFocused(),
+            persistentDeviceId: deviceId,
+            clientId,
+            seq: querySyncSeqRef.current[clientId] ?? 0,
+            reactQueryVersion,
+          };
+          emitToDashboard("query-sync", syncMessage);
+          log(
+            `[${deviceName}] Sent initial state of ${clientId} to dashboard (${dehydratedState.queries.length} queries)`,
+            enableLogs
+          );
+        });
+      };
+      initialStateSubscription = listen("request-initial-state", () => {
         log(`${logPrefix} Dashboard is requesting initial state`, enableLogs);
-        const dehydratedState = Dehydrate(queryClient as unknown as QueryClient);
-        const syncMessage: SyncMessage = {
-          type: "dehydrated-state",
-          state: dehydratedState,
-          isOnlineManagerOnline: onlineManager.isOnline(),
-          persistentDeviceId: deviceId,
-        };
-        socket.emit("query-sync", syncMessage);
-        log(
-          `[${deviceName}] Sent initial state to dashboard (${dehydratedState.queries.length} queries)`,
-          enableLogs
-        );
+        sendFullState();
       });
+      // The dashboard may have missed any number of changes while disconnected
+      if (pendingFullSyncRef.current) {
+        pendingFullSyncRef.current = false;
+        log(`${logPrefix} Reconnected, sending full state`, enableLogs);
+        sendFullState();
+      }
 
       // ==========================================================
       // Online manager handler - Handle device internet connection state changes
       // ==========================================================
-      onlineManagerSubscription = socket.on(
+      onlineManagerSubscription = listen(
         "online-manager",
-        (message: OnlineManagerMessage) => {
-          const { action, targetDeviceId } = message;
+        (message: OnlineManagerMessage, ack?: ActionAck) => {
+          const { action, targetDeviceId, actionId } = message;
           if (!deviceId) {
             log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
             return;
@@ -356,6 +852,15 @@ export function useSyncQueriesExternal({
             return;
           }
 
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "online-manager",
+            action,
+            actionId,
+            ack,
+          });
+
           log(
             `[${deviceName}] Received online-manager action: ${action}`,
             enableLogs
@@ -372,17 +877,95 @@ export function useSyncQueriesExternal({
               onlineManager.setOnline(false);
               break;
             }
+            default: {
+              log(`${logPrefix} Unknown online manager action: ${action}`, enableLogs, "warn");
+              respond.failure("unsupported-action", `Unknown online manager action: ${action}`);
+              return;
+            }
+          }
+          respond.success();
+        }
+      );
+
+      // ==========================================================
+      // Focus manager handler - Simulate the app gaining or losing focus
+      // ==========================================================
+      focusManagerSubscription = listen(
+        "focus-manager",
+        (message: FocusManagerMessage, ack?: ActionAck) => {
+          const { action, targetDeviceId, actionId } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Only process if this message targets the current device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "focus-manager",
+            action,
+            actionId,
+            ack,
+          });
+
+          log(
+            `[${deviceName}] Received focus-manager action: ${action}`,
+            enableLogs
+          );
+
+          switch (action) {
+            case "ACTION-FOCUS-MANAGER-FOCUSED": {
+              log(`${logPrefix} Set focus state: FOCUSED`, enableLogs);
+              focusManager.setFocused(true);
+              break;
+            }
+            case "ACTION-FOCUS-MANAGER-UNFOCUSED": {
+              log(`${logPrefix} Set focus state: UNFOCUSED`, enableLogs);
+              focusManager.setFocused(false);
+              break;
+            }
+            case "ACTION-FOCUS-MANAGER-RESET": {
+              log(`${logPrefix} Reset focus state to automatic`, enableLogs);
+              focusManager.setFocused(undefined);
+              break;
+            }
+            default: {
+              log(`${logPrefix} Unknown focus manager action: ${action}`, enableLogs, "warn");
+              respond.failure("unsupported-action", `Unknown focus manager action: ${action}`);
+              return;
+            }
           }
+          respond.success();
         }
       );
 
       // ==========================================================
       // Query Actions handler - Process actions from the dashboard
       // ==========================================================
-      queryActionSubscription = socket.on(
+      queryActionSubscription = listen(
         "query-action",
-        (message: QueryActionMessage) => {
-          const { queryHash, queryKey, data, action, targetDeviceId } = message;
+        (message: QueryActionMessage, ack?: ActionAck) => {
+          const {
+            queryHash,
+            data,
+            action,
+            targetDeviceId,
+            clientId,
+            error: errorDescription,
+            patch,
+            pageIndex,
+            dataUpdatedAt,
+            errorUpdatedAt,
+            actionId,
+          } = message;
           if (!deviceId) {
             log(
               `[${deviceName}] No persistent device ID found`,
@@ -401,260 +984,1288 @@ export function useSyncQueriesExternal({
             return;
           }
 
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "query-action",
+            action,
+            actionId,
+            ack,
+          });
+
           log(
             `${logPrefix} Received query action: ${action} for query ${queryHash}`,
             enableLogs
           );
+          const queryClientEntry = resolveQueryClient(clientId);
+          if (!queryClientEntry) {
+            log(
+              `${logPrefix} Query client ${clientId} not found`,
+              enableLogs,
+              "warn"
+            );
+            respond.failure(
+              "query-client-not-found",
+              `Query client ${clientId} not found`
+            );
+            return;
+          }
+          const [targetClientId, targetQueryClient] = queryClientEntry;
           // If action is clear cache do the action here before moving on
           if (action === "ACTION-CLEAR-MUTATION-CACHE") {
-            queryClient.getMutationCache().clear();
+            targetQueryClient.getMutationCache().clear();
             log(`${logPrefix} Cleared mutation cache`, enableLogs);
+            respond.success();
             return;
           }
           if (action === "ACTION-CLEAR-QUERY-CACHE") {
-            queryClient.getQueryCache().clear();
+            targetQueryClient.getQueryCache().clear();
             log(`${logPrefix} Cleared query cache`, enableLogs);
+            respond.success();
             return;
           }
 
-          const activeQuery = queryClient.getQueryCache().get(queryHash);
+          const activeQuery = targetQueryClient.getQueryCache().get(queryHash);
           if (!activeQuery) {
             log(
               `${logPrefix} Query with hash ${queryHash} not found`,
               enableLogs,
               "warn"
             );
+            respond.failure(
+              "query-not-found",
+              `Query with hash ${queryHash} not found`
+            );
             return;
           }
 
-          switch (action) {
-            case "ACTION-DATA-UPDATE": {
-              log(`${logPrefix} Updating data for query:`, enableLogs);
-              queryClient.setQueryData(queryKey, data, {
-                updatedAt: Date.now(),
-              });
-              break;
-            }
-
-            case "ACTION-TRIGGER-ERROR": {
-              log(`${logPrefix} Triggering error state for query:`, enableLogs);
-              const error = new Error("Unknown error from devtools");
-
-              const __previousQueryOptions = activeQuery.options;
-              activeQuery.setState({
-                status: "error",
-                error,
-                fetchMeta: {
-                  ...activeQuery.state.fetchMeta,
-                  // @ts-expect-error This does exist
-                  __previousQueryOptions,
-                },
-              });
-              break;
-            }
-            case "ACTION-RESTORE-ERROR": {
-              log(
-                `${logPrefix} Restoring from error state for query:`,
-                enableLogs
-              );
-              queryClient.resetQueries(activeQuery);
-              break;
-            }
-            case "ACTION-TRIGGER-LOADING": {
-              if (!activeQuery) return;
-              log(`${logPrefix} Triggering loading state for query:`, enableLogs);
-              const __previousQueryOptions = activeQuery.options;
-              // Trigger a fetch in order to trigger suspense as well.
-              activeQuery.fetch({
-                ...__previousQueryOptions,
-                queryFn: () => {
-                  return new Promise(() => {
-                    // Never resolve - simulates perpetual loading
-                  });
-                },
-                gcTime: -1,
-              });
-              activeQuery.setState({
-                data: undefined,
-                status: "pending",
-                fetchMeta: {
-                  ...activeQuery.state.fetchMeta,
-                  // @ts-expect-error This does exist
-                  __previousQueryOptions,
-                },
-              });
-              break;
-            }
-            case "ACTION-RESTORE-LOADING": {
-              log(
-                `${logPrefix} Restoring from loading state for query:`,
-                enableLogs
-              );
-              const previousState = activeQuery.state;
-              const previousOptions = activeQuery.state.fetchMeta
-                ? (
-                    activeQuery.state.fetchMeta as unknown as {
-                      __previousQueryOptions: unknown;
-                    }
-                  ).__previousQueryOptions
-                : null;
-
-              activeQuery.cancel({ silent: true });
-              activeQuery.setState({
-                ...previousState,
-                fetchStatus: "idle",
-                fetchMeta: null,
-              });
-
-              if (previousOptions) {
-                activeQuery.fetch(previousOptions);
-              }
-              break;
-            }
-            case "ACTION-RESET": {
-              log(`${logPrefix} Resetting query:`, enableLogs);
-              queryClient.resetQueries(activeQuery);
-              break;
-            }
-            case "ACTION-REMOVE": {
-              log(`${logPrefix} Removing query:`, enableLogs);
-              queryClient.removeQueries(activeQuery);
-              break;
-            }
-            case "ACTION-REFETCH": {
-              log(`${logPrefix} Refetching query:`, enableLogs);
-              const promise = activeQuery.fetch();
-              promise.catch((error) => {
-                // Log fetch errors but don't propagate them
-                log(
-                  `[${deviceName}] Refetch error for ${queryHash}:`,
-                  enableLogs,
-                  "error"
-                );
-              });
-              break;
-            }
-            case "ACTION-INVALIDATE": {
-              log(`${logPrefix} Invalidating query:`, enableLogs);
-              queryClient.invalidateQueries(activeQuery);
-              break;
-            }
-            case "ACTION-ONLINE-MANAGER-ONLINE": {
-              log(`${logPrefix} Setting online state: ONLINE`, enableLogs);
-              onlineManager.setOnline(true);
-              break;
-            }
-            case "ACTION-ONLINE-MANAGER-OFFLINE": {
-              log(`${logPrefix} Setting online state: OFFLINE`, enableLogs);
-              onlineManager.setOnline(false);
-              break;
-            }
-          }
-        }
-      );
-
-      // ==========================================================
-      // Subscribe to query changes and sync to dashboard
-      // ==========================================================
-      unsubscribe = queryClient.getQueryCache().subscribe(() => {
-        if (!deviceId) {
-          log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
-          return;
-        }
-        // Dehydrate the current state
-        const dehydratedState = Dehydrate(queryClient as unknown as QueryClient);
-
-        // Create sync message
-        const syncMessage: SyncMessage = {
-          type: "dehydrated-state",
-          state: dehydratedState,
-          isOnlineManagerOnline: onlineManager.isOnline(),
-          persistentDeviceId: deviceId,
-        };
-
-        // Send message to dashboard
-        socket.emit("query-sync", syncMessage);
-      });
-    }
-
-    // ==========================================================
-    // Storage handlers - Process storage actions from the dashboard
-    // ==========================================================
-    const asyncStorageActionSubscription = socket.on(
-      "async-storage-action",
-      async (message: AsyncStorageActionMessage) => {
-        const { action, targetDeviceId, key, value } = message;
-
-        if (!deviceId) {
-          log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
-          return;
-        }
-
-        // Skip if not targeted at this device
-        if (
-          !shouldProcessMessage({
-            targetDeviceId: targetDeviceId,
-            currentDeviceId: deviceId,
-          })
-        ) {
-          return;
-        }
-
-        log(
-          `${logPrefix} Received storage action: ${action}${key ? ` for key ${key}` : ''}`,
-          enableLogs
-        );
-
-        // If storage is provided, handle the action directly
-        if (storage) {
           try {
             switch (action) {
-              case 'GET_ALL_KEYS':
-                await sendStorageState();
+              case "ACTION-DATA-UPDATE": {
+                log(`${logPrefix} Updating data for query:`, enableLogs);
+                // Decode so edited data comes back with its original types
+                targetQueryClient.setQueryData(activeQuery.queryKey, getTransportCodec().decode(data), {
+                  updatedAt: Date.now(),
+                });
                 break;
+              }
 
-              case 'GET_ITEM':
-                if (key) {
-                  const value = await storage.getItem(key);
-                  log(`${logPrefix} Got storage item: ${key} = ${value}`, enableLogs);
-                  // After getting the item, send the full state back
-                  await sendStorageState();
+              case "ACTION-DATA-PATCH": {
+                if (!patch) {
+                  respond.failure("invalid-message", "No patch provided");
+                  return;
+                }
+                log(`${logPrefix} Patching data for query:`, enableLogs);
+                const operations = patch.map((operation) =>
+                  "value" in operation
+                    ? { ...operation, value: getTransportCodec().decode(operation.value) }
+                    : operation
+                );
+                let patchedData: unknown;
+                try {
+                  // The paths were built from the redacted and encoded data
+                  assertPatchablePaths(
+                    getTransportCodec().encode(
+                      dehydrateQueryData(activeQuery, getDehydrateContext())
+                    ),
+                    patch
+                  );
+                  patchedData = applyJsonPatch(activeQuery.state.data, operations);
+                } catch (patchError) {
+                  log(`${logPrefix} ${patchError}`, enableLogs, "warn");
+                  respond.failure(
+                    "patch-failed",
+                    patchError instanceof Error ? patchError.message : String(patchError)
+                  );
+                  return;
                 }
+                targetQueryClient.setQueryData(activeQuery.queryKey, patchedData, {
+                  updatedAt: Date.now(),
+                });
                 break;
+              }
 
-              case 'SET_ITEM':
-                if (key && value !== undefined) {
-                  await storage.setItem(key, value);
-                  log(`${logPrefix} Set storage item: ${key} = ${value}`, enableLogs);
-                  // After setting the item, send the updated state back
-                  await sendStorageState();
+              case "ACTION-FETCH-NEXT-PAGE":
+              case "ACTION-FETCH-PREVIOUS-PAGE": {
+                if (!isInfiniteQuery(activeQuery)) {
+                  respond.failure("not-infinite-query", `Query ${queryHash} has no pages`);
+                  return;
                 }
+                const direction =
+                  action === "ACTION-FETCH-NEXT-PAGE" ? "forward" : "backward";
+                log(`${logPrefix} Fetching ${direction} page of query:`, enableLogs);
+                let promise: Promise<unknown>;
+                try {
+                  queryMetricsRef.current?.recordManualFetch(targetClientId, queryHash);
+                  promise = fetchInfiniteQueryPage(activeQuery, direction);
+                } catch (pageError) {
+                  respond.failure(
+                    "not-infinite-query",
+                    pageError instanceof Error ? pageError.message : String(pageError)
+                  );
+                  return;
+                }
+                promise.catch(() => {
+                  // Log fetch errors but don't propagate them
+                  log(
+                    `${logPrefix} Page fetch error for ${queryHash}:`,
+                    enableLogs,
+                    "error"
+                  );
+                });
                 break;
+              }
 
-              case 'REMOVE_ITEM':
-                if (key) {
-                  await storage.removeItem(key);
-                  log(`${logPrefix} Removed storage item: ${key}`, enableLogs);
-                  // After removing the item, send the updated state back
-                  await sendStorageState();
+              case "ACTION-DROP-PAGES": {
+                const infiniteData = activeQuery.state.data;
+                if (!isInfiniteData(infiniteData)) {
+                  respond.failure("not-infinite-query", `Query ${queryHash} has no pages`);
+                  return;
                 }
+                log(`${logPrefix} Dropping pages of query:`, enableLogs);
+                targetQueryClient.setQueryData(activeQuery.queryKey, dropInfinitePages(infiniteData), {
+                  updatedAt: Date.now(),
+                });
                 break;
+              }
 
-              case 'CLEAR_ALL':
-                await storage.clear();
-                log(`${logPrefix} Cleared all storage items`, enableLogs);
-                // After clearing all items, send the updated state back
-                await sendStorageState();
-                break;
-            }
+              case "ACTION-PAGE-UPDATE": {
+                const infiniteData = activeQuery.state.data;
+                if (!isInfiniteData(infiniteData)) {
+                  respond.failure("not-infinite-query", `Query ${queryHash} has no pages`);
+                  return;
+                }
+                if (
+                  pageIndex === undefined ||
+                  !Number.isInteger(pageIndex) ||
+                  pageIndex < 0 ||
+                  pageIndex >= infiniteData.pages.length
+                ) {
+                  respond.failure(
+                    "invalid-message",
+                    `Page index ${pageIndex} is out of range (${infiniteData.pages.length} pages)`
+                  );
+                  return;
+                }
+                log(`${logPrefix} Updating page ${pageIndex} of query:`, enableLogs);
+                targetQueryClient.setQueryData(
+                  activeQuery.queryKey,
+                  updateInfinitePage(
+                    infiniteData,
+                    pageIndex,
+                    getTransportCodec().decode(data)
+                  ),
+                  { updatedAt: Date.now() }
+                );
+                break;
+              }
+
+              case "ACTION-TRIGGER-ERROR": {
+                log(`${logPrefix} Triggering error state for query:`, enableLogs);
+                const error = createErrorFromDescription(errorDescription);
+
+                const __previousQueryOptions = activeQuery.options;
+                activeQuery.setState({
+                  status: "error",
+                  error: error as Error,
+                  fetchMeta: {
+                    ...activeQuery.state.fetchMeta,
+                    // @ts-expect-error This does exist
+                    __previousQueryOptions,
+                  },
+                });
+                break;
+              }
+              case "ACTION-RESTORE-ERROR": {
+                log(
+                  `${logPrefix} Restoring from error state for query:`,
+                  enableLogs
+                );
+                targetQueryClient.resetQueries(activeQuery);
+                break;
+              }
+              case "ACTION-TRIGGER-LOADING": {
+                if (!activeQuery) return;
+                log(`${logPrefix} Triggering loading state for query:`, enableLogs);
+                const __previousQueryOptions = activeQuery.options;
+                // Trigger a fetch in order to trigger suspense as well.
+                // Mocks and freezes would replace the never-resolving queryFn
+                fetchWithoutInterceptors(activeQuery, {
+                  ...__previousQueryOptions,
+                  queryFn: () => {
+                    return new Promise(() => {
+                      // Never resolve - simulates perpetual loading
+                    });
+                  },
+                  ...toClientOptions({ gcTime: -1 }),
+                });
+                activeQuery.setState({
+                  data: undefined,
+                  status: PENDING_STATUS,
+                  fetchMeta: {
+                    ...activeQuery.state.fetchMeta,
+                    // @ts-expect-error This does exist
+                    __previousQueryOptions,
+                  },
+                });
+                break;
+              }
+              case "ACTION-RESTORE-LOADING": {
+                log(
+                  `${logPrefix} Restoring from loading state for query:`,
+                  enableLogs
+                );
+                const previousState = activeQuery.state;
+                const previousOptions = activeQuery.state.fetchMeta
+                  ? (
+                      activeQuery.state.fetchMeta as unknown as {
+                        __previousQueryOptions: unknown;
+                      }
+                    ).__previousQueryOptions
+                  : null;
+
+                activeQuery.cancel({ silent: true });
+                activeQuery.setState({
+                  ...previousState,
+                  fetchStatus: "idle",
+                  fetchMeta: null,
+                });
+
+                if (previousOptions) {
+                  activeQuery.fetch(previousOptions);
+                }
+                break;
+              }
+              case "ACTION-RESET": {
+                log(`${logPrefix} Resetting query:`, enableLogs);
+                targetQueryClient.resetQueries(activeQuery);
+                break;
+              }
+              case "ACTION-REMOVE": {
+                log(`${logPrefix} Removing query:`, enableLogs);
+                targetQueryClient.removeQueries(activeQuery);
+                break;
+              }
+              case "ACTION-REFETCH": {
+                log(`${logPrefix} Refetching query:`, enableLogs);
+                queryMetricsRef.current?.recordManualFetch(targetClientId, queryHash);
+                const promise = activeQuery.fetch();
+                promise.catch((error) => {
+                  // Log fetch errors but don't propagate them
+                  log(
+                    `[${deviceName}] Refetch error for ${queryHash}:`,
+                    enableLogs,
+                    "error"
+                  );
+                });
+                break;
+              }
+              case "ACTION-INVALIDATE": {
+                log(`${logPrefix} Invalidating query:`, enableLogs);
+                targetQueryClient.invalidateQueries(activeQuery);
+                break;
+              }
+              case "ACTION-CANCEL": {
+                log(`${logPrefix} Cancelling fetch of query:`, enableLogs);
+                // Without revert the query would end up in an error state with a CancelledError
+                void activeQuery.cancel({ revert: true });
+                break;
+              }
+              case "ACTION-MARK-STALE": {
+                log(`${logPrefix} Marking query stale:`, enableLogs);
+                // Unlike ACTION-INVALIDATE, nothing is refetched until an observer needs the data
+                activeQuery.invalidate();
+                break;
+              }
+              case "ACTION-FREEZE": {
+                log(`${logPrefix} Freezing query:`, enableLogs);
+                queryFreezeRef.current?.freeze(targetClientId, queryHash);
+                // Revert an in-flight fetch so the query keeps the data it had
+                void activeQuery.cancel({ revert: true });
+                // Notify so the frozen state reaches the dashboard in the next delta
+                activeQuery.setState({});
+                break;
+              }
+              case "ACTION-UNFREEZE": {
+                log(`${logPrefix} Unfreezing query:`, enableLogs);
+                queryFreezeRef.current?.unfreeze(targetClientId, queryHash);
+                activeQuery.setState({});
+                break;
+              }
+              case "ACTION-TIME-TRAVEL": {
+                if (dataUpdatedAt === undefined && errorUpdatedAt === undefined) {
+                  respond.failure(
+                    "invalid-message",
+                    "No dataUpdatedAt or errorUpdatedAt provided"
+                  );
+                  return;
+                }
+                log(`${logPrefix} Rewriting update times of query:`, enableLogs);
+                // Observers re-evaluate staleness with the new times
+                activeQuery.setState({
+                  ...(dataUpdatedAt !== undefined && { dataUpdatedAt }),
+                  ...(errorUpdatedAt !== undefined && { errorUpdatedAt }),
+                });
+                break;
+              }
+              case "ACTION-ONLINE-MANAGER-ONLINE": {
+                log(`${logPrefix} Setting online state: ONLINE`, enableLogs);
+                onlineManager.setOnline(true);
+                break;
+              }
+              case "ACTION-ONLINE-MANAGER-OFFLINE": {
+                log(`${logPrefix} Setting online state: OFFLINE`, enableLogs);
+                onlineManager.setOnline(false);
+                break;
+              }
+              default: {
+                log(`${logPrefix} Unknown query action: ${action}`, enableLogs, "warn");
+                respond.failure("unsupported-action", `Unknown query action: ${action}`);
+                return;
+              }
+            }
+            respond.success();
+          } catch (error) {
+            log(
+              `${logPrefix} Error handling query action: ${error}`,
+              enableLogs,
+              "error"
+            );
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+      );
+
+      // ==========================================================
+      // Bulk Query Actions handler - Act on every query matching a filter
+      // ==========================================================
+      bulkQueryActionSubscription = listen(
+        "bulk-query-action",
+        (message: BulkQueryActionMessage, ack?: ActionAck) => {
+          const { action, filters, targetDeviceId, clientId, actionId } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "bulk-query-action",
+            action,
+            actionId,
+            ack,
+          });
+
+          log(`${logPrefix} Received bulk query action: ${action}`, enableLogs);
+
+          const queryClientEntry = resolveQueryClient(clientId);
+          if (!queryClientEntry) {
+            log(
+              `${logPrefix} Query client ${clientId} not found`,
+              enableLogs,
+              "warn"
+            );
+            respond.failure(
+              "query-client-not-found",
+              `Query client ${clientId} not found`
+            );
+            return;
+          }
+
+          try {
+            const queryHashes = executeBulkQueryAction(
+              action,
+              filters ?? {},
+              queryClientEntry[1],
+              enableLogs
+            );
+            respond.success({ queryHashes });
+          } catch (error) {
+            log(
+              `${logPrefix} Error handling bulk query action: ${error}`,
+              enableLogs,
+              "error"
+            );
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+      );
+
+      // ==========================================================
+      // Query defaults - Edit and report the defaults of each client
+      // ==========================================================
+      const sendQueryDefaults = (
+        clientId: string,
+        client: QueryClient,
+        queryKeys?: QueryKey[],
+        mutationKeys?: MutationKey[]
+      ) => {
+        if (!deviceId) {
+          return;
+        }
+        const defaultsMessage: QueryDefaultsSyncMessage = {
+          type: "query-defaults",
+          clientId,
+          state: getQueryDefaultsEditor(client).getState(queryKeys, mutationKeys),
+          persistentDeviceId: deviceId,
+        };
+        emitToDashboard("query-defaults-sync", defaultsMessage);
+      };
+
+      queryDefaultsActionSubscription = listen(
+        "query-defaults-action",
+        (message: QueryDefaultsActionMessage, ack?: ActionAck) => {
+          const {
+            action,
+            targetDeviceId,
+            clientId,
+            actionId,
+            queries,
+            mutations,
+            queryKey,
+            mutationKey,
+            options,
+          } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "query-defaults-action",
+            action,
+            actionId,
+            ack,
+          });
+
+          log(`${logPrefix} Received query defaults action: ${action}`, enableLogs);
+
+          const queryClientEntry = resolveQueryClient(clientId);
+          if (!queryClientEntry) {
+            log(
+              `${logPrefix} Query client ${clientId} not found`,
+              enableLogs,
+              "warn"
+            );
+            respond.failure(
+              "query-client-not-found",
+              `Query client ${clientId} not found`
+            );
+            return;
+          }
+          const [targetClientId, targetQueryClient] = queryClientEntry;
+          const defaultsEditor = getQueryDefaultsEditor(targetQueryClient);
+
+          try {
+            switch (action) {
+              case "ACTION-SET-DEFAULT-OPTIONS": {
+                defaultsEditor.setDefaultOptions(queries, mutations);
+                log(`${logPrefix} Updated default options`, enableLogs);
+                break;
+              }
+              case "ACTION-SET-QUERY-DEFAULTS": {
+                if (!queryKey || !options) {
+                  respond.failure("invalid-message", "No queryKey or options provided");
+                  return;
+                }
+                defaultsEditor.setQueryDefaults(queryKey, options);
+                log(`${logPrefix} Updated query defaults`, enableLogs);
+                break;
+              }
+              case "ACTION-SET-MUTATION-DEFAULTS": {
+                if (!mutationKey || !options) {
+                  respond.failure(
+                    "invalid-message",
+                    "No mutationKey or options provided"
+                  );
+                  return;
+                }
+                defaultsEditor.setMutationDefaults(mutationKey, options);
+                log(`${logPrefix} Updated mutation defaults`, enableLogs);
+                break;
+              }
+              case "ACTION-REVERT-DEFAULTS": {
+                defaultsEditor.revert();
+                log(`${logPrefix} Reverted defaults`, enableLogs);
+                break;
+              }
+              default: {
+                log(`${logPrefix} Unknown query defaults action: ${action}`, enableLogs, "warn");
+                respond.failure("unsupported-action", `Unknown query defaults action: ${action}`);
+                return;
+              }
+            }
+            respond.success();
+          } catch (error) {
+            log(
+              `${logPrefix} Error handling query defaults action: ${error}`,
+              enableLogs,
+              "error"
+            );
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+          sendQueryDefaults(targetClientId, targetQueryClient);
+        }
+      );
+
+      queryDefaultsRequestSubscription = listen(
+        "request-query-defaults",
+        (message: QueryDefaultsRequestMessage) => {
+          const { targetDeviceId, clientId, queryKeys, mutationKeys } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          log(`${logPrefix} Dashboard is requesting query defaults`, enableLogs);
+          queryClientEntries
+            .filter(([id]) => clientId === undefined || id === clientId)
+            .forEach(([id, client]) =>
+              sendQueryDefaults(id, client, queryKeys, mutationKeys)
+            );
+        }
+      );
+
+      // ==========================================================
+      // Cache snapshots - Capture the cache of a client or restore one into it
+      // ==========================================================
+      cacheSnapshotActionSubscription = listen(
+        "cache-snapshot-action",
+        async (message: CacheSnapshotActionMessage, ack?: ActionAck) => {
+          const {
+            action,
+            targetDeviceId,
+            clientId,
+            actionId,
+            name,
+            includeStorage,
+            snapshot,
+          } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "cache-snapshot-action",
+            action,
+            actionId,
+            ack,
+          });
+
+          log(`${logPrefix} Received cache snapshot action: ${action}`, enableLogs);
+
+          const queryClientEntry = resolveQueryClient(clientId);
+          if (!queryClientEntry) {
+            log(
+              `${logPrefix} Query client ${clientId} not found`,
+              enableLogs,
+              "warn"
+            );
+            respond.failure(
+              "query-client-not-found",
+              `Query client ${clientId} not found`
+            );
+            return;
+          }
+          const [targetClientId, targetQueryClient] = queryClientEntry;
+          // Check before anything is captured or restored
+          if (includeStorage && !storage) {
+            respond.failure(
+              "storage-not-configured",
+              "No storage passed to the sync hook"
+            );
+            return;
+          }
+
+          try {
+            switch (action) {
+              case "ACTION-SNAPSHOT-CAPTURE": {
+                // Note what gets redacted, so restoring can leave it alone
+                const redactedQueryKeys = new Set<QueryKey>();
+                const redactedStorageKeys = new Set<string>();
+                const snapshotRedaction: Redaction = {
+                  ...hookRedaction,
+                  redactValue: (value, context) => {
+                    const redacted = hookRedaction.redactValue(value, context);
+                    if (redacted !== value && context.source === "query") {
+                      redactedQueryKeys.add(context.queryKey);
+                    }
+                    return redacted;
+                  },
+                };
+                // Snapshots always carry the data, even with the lazy data options
+                const state = Dehydrate(targetQueryClient, {
+                  ...getDehydrateContext(),
+                  redaction: snapshotRedaction,
+                  lazyData: false,
+                  maxInlineDataSize: undefined,
+                });
+                const capturedSnapshot: CacheSnapshot = {
+                  name: name ?? new Date().toISOString(),
+                  createdAt: Date.now(),
+                  clientId: targetClientId,
+                  state,
+                  ...(includeStorage && {
+                    storage: await getStorageItems(redactedStorageKeys),
+                  }),
+                  redacted: {
+                    queryHashes: targetQueryClient
+                      .getQueryCache()
+                      .getAll()
+                      .filter((query) => redactedQueryKeys.has(query.queryKey))
+                      .map((query) => query.queryHash),
+                    storageKeys: Array.from(redactedStorageKeys),
+                  },
+                };
+                const snapshotMessage: CacheSnapshotMessage = {
+                  type: "cache-snapshot",
+                  snapshot: capturedSnapshot,
+                  persistentDeviceId: deviceId,
+                };
+                emitToDashboard("cache-snapshot", snapshotMessage);
+                log(
+                  `${logPrefix} Captured cache snapshot ${capturedSnapshot.name} (${capturedSnapshot.state.queries.length} queries)`,
+                  enableLogs
+                );
+                respond.success({ name: capturedSnapshot.name });
+                break;
+              }
+              case "ACTION-SNAPSHOT-RESTORE": {
+                if (!snapshot) {
+                  respond.failure("invalid-message", "No snapshot provided");
+                  return;
+                }
+                // Redacted placeholders must not overwrite the real values
+                const redactedQueryHashes = new Set(snapshot.redacted?.queryHashes);
+                const redactedStorageKeys = new Set(snapshot.redacted?.storageKeys);
+                const restored = Hydrate(
+                  targetQueryClient,
+                  {
+                    ...snapshot.state,
+                    queries: snapshot.state.queries.filter(
+                      (query) => !redactedQueryHashes.has(query.queryHash)
+                    ),
+                  },
+                  hydrateOptionsRef.current
+                );
+                let storageItems = 0;
+                if (includeStorage && storage && snapshot.storage) {
+                  const storageToRestore = snapshot.storage.filter(
+                    (item) => !redactedStorageKeys.has(item.key)
+                  );
+                  for (const item of storageToRestore) {
+                    await storage.setItem(
+                      item.key,
+                      getTransportCodec().decode(item.value) as string
+                    );
+                  }
+                  storageItems = storageToRestore.length;
+                  await sendStorageState();
+                }
+                log(
+                  `${logPrefix} Restored cache snapshot ${snapshot.name} (${restored.queries} queries)`,
+                  enableLogs
+                );
+                respond.success({ ...restored, storageItems });
+                break;
+              }
+              default: {
+                log(`${logPrefix} Unknown cache snapshot action: ${action}`, enableLogs, "warn");
+                respond.failure("unsupported-action", `Unknown cache snapshot action: ${action}`);
+                return;
+              }
+            }
+          } catch (error) {
+            log(
+              `${logPrefix} Error handling cache snapshot action: ${error}`,
+              enableLogs,
+              "error"
+            );
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+      );
+
+      // ==========================================================
+      // Mutation Actions handler - Retry, replay or remove a mutation
+      // ==========================================================
+      mutationActionSubscription = listen(
+        "mutation-action",
+        async (message: MutationActionMessage, ack?: ActionAck) => {
+          const { action, actionId, mutationId, targetDeviceId, clientId } =
+            message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+
+          log(
+            `${logPrefix} Received mutation action: ${action} for mutation ${mutationId}`,
+            enableLogs
+          );
+
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "mutation-action",
+            action,
+            actionId,
+            ack,
+          });
+
+          const queryClientEntry = resolveQueryClient(clientId);
+          if (!queryClientEntry) {
+            const error = `Query client ${clientId} not found`;
+            log(`${logPrefix} ${error}`, enableLogs, "warn");
+            respond.failure("query-client-not-found", error);
+            return;
+          }
+
+          await executeMutationAction(
+            message,
+            queryClientEntry[1],
+            hookRedaction,
+            respond,
+            enableLogs
+          );
+        }
+      );
+
+      // ==========================================================
+      // Query history - Stream new entries and serve the backlog on request
+      // ==========================================================
+      const queryHistory = queryHistoryRef.current;
+      const unsubscribeQueryHistory = queryHistory?.subscribe((entries) => {
+        if (!deviceId) {
+          log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+          return;
+        }
+        const historyMessage: QueryHistorySyncMessage = {
+          type: "query-history-events",
+          entries: redactQueryKeys(entries),
+          persistentDeviceId: deviceId,
+        };
+        emitToDashboard("query-history-sync", historyMessage);
+      });
+
+      queryHistoryRequestSubscription = listen(
+        "request-query-history",
+        (message: QueryHistoryRequestMessage) => {
+          const { targetDeviceId, clientId, queryHash } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+
+          const entries = queryHistory?.getEntries({ clientId, queryHash }) ?? [];
+          const backlogMessage: QueryHistoryBacklogMessage = {
+            type: "query-history-backlog",
+            entries: redactQueryKeys(entries),
+            persistentDeviceId: deviceId,
+          };
+          emitToDashboard("query-history-backlog", backlogMessage);
+          log(
+            `${logPrefix} Sent query history to dashboard (${entries.length} entries)`,
+            enableLogs
+          );
+        }
+      );
+
+      // ==========================================================
+      // Query metrics - Push metrics of queries whose fetch finished and serve them on request
+      // ==========================================================
+      const queryMetrics = queryMetricsRef.current;
+      const unsubscribeQueryMetrics = queryMetrics?.subscribe((metrics) => {
+        if (!deviceId) {
+          log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+          return;
+        }
+        const metricsMessage: QueryMetricsSyncMessage = {
+          type: "query-metrics",
+          metrics: redactQueryKeys(metrics),
+          persistentDeviceId: deviceId,
+        };
+        emitToDashboard("query-metrics", metricsMessage);
+      });
+
+      queryMetricsRequestSubscription = listen(
+        "request-query-metrics",
+        (message: QueryMetricsRequestMessage) => {
+          const { targetDeviceId, clientId, queryHash } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+
+          const metrics = queryMetrics?.getMetrics({ clientId, queryHash }) ?? [];
+          const metricsMessage: QueryMetricsSyncMessage = {
+            type: "query-metrics",
+            metrics: redactQueryKeys(metrics),
+            persistentDeviceId: deviceId,
+          };
+          emitToDashboard("query-metrics", metricsMessage);
+          log(
+            `${logPrefix} Sent query metrics to dashboard (${metrics.length} queries)`,
+            enableLogs
+          );
+        }
+      );
+
+      // ==========================================================
+      // Query data - Send the data of a query left out of sync messages
+      // ==========================================================
+      queryDataRequestSubscription = listen(
+        "request-query-data",
+        (message: QueryDataRequestMessage) => {
+          const { targetDeviceId, clientId, queryHash, requestId } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+
+          const queryClientEntry = resolveQueryClient(clientId);
+          const query = queryClientEntry?.[1].getQueryCache().get(queryHash);
+          const dataMessage: QueryDataMessage = {
+            type: "query-data",
+            clientId: queryClientEntry?.[0] ?? clientId,
+            queryHash,
+            requestId,
+            persistentDeviceId: deviceId,
+          };
+          if (!queryClientEntry) {
+            dataMessage.error = `Query client ${clientId} not found`;
+          } else if (!query) {
+            dataMessage.error = `Query with hash ${queryHash} not found`;
+          } else if (
+            dehydrateOptionsRef.current?.shouldDehydrateQuery?.(query) === false
+          ) {
+            // Excluded queries are never sent, not even on demand
+            dataMessage.error = `Query with hash ${queryHash} is not synced`;
+          } else if (query.state.data !== undefined) {
+            const payload = dehydrateQueryData(query, getDehydrateContext());
+            dataMessage.data = getTransportCodec().encode(payload);
+            dataMessage.dataInfo = {
+              ...getQueryDataInfo(query, () => payload),
+              isLazy: false,
+            };
+          }
+          emitToDashboard("query-data", dataMessage);
+          log(
+            `${logPrefix} Sent data of query ${queryHash} to dashboard`,
+            enableLogs
+          );
+        }
+      );
+
+      // ==========================================================
+      // Query mocks - Manage the mock rules and report them to the dashboard
+      // ==========================================================
+      const queryMocks = queryMocksRef.current;
+      const sendQueryMocks = () => {
+        if (!deviceId || !queryMocks) {
+          return;
+        }
+        const mocksMessage: QueryMocksSyncMessage = {
+          type: "query-mocks",
+          rules: queryMocks.getRules(),
+          persistentDeviceId: deviceId,
+        };
+        emitToDashboard("query-mocks-sync", mocksMessage);
+      };
+      /**
+       * Refetch active queries affected by changed rules so they show the new result
+       */
+      const invalidateMockedQueries = (rules: QueryMockRule[]) => {
+        queryClientEntries.forEach(([clientId, client]) => {
+          client.invalidateQueries({
+            predicate: (query) =>
+              rules.some((rule) => matchesMockRule(rule, clientId, query)),
+          });
+        });
+      };
+
+      queryMockActionSubscription = listen(
+        "query-mock-action",
+        (message: QueryMockActionMessage, ack?: ActionAck) => {
+          const { action, targetDeviceId, rule, ruleId, enabled, actionId } =
+            message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          if (!queryMocks) {
+            return;
+          }
+          const respond = createActionResponder({
+            socket: dashboardEmitter,
+            deviceId,
+            event: "query-mock-action",
+            action,
+            actionId,
+            ack,
+          });
+
+          log(`${logPrefix} Received query mock action: ${action}`, enableLogs);
+
+          try {
+            switch (action) {
+              case "ACTION-MOCK-SET": {
+                if (!rule) {
+                  respond.failure("invalid-message", "No rule provided");
+                  return;
+                }
+                const previousRule = queryMocks
+                  .getRules()
+                  .find((candidate) => candidate.id === rule.id);
+                queryMocks.setRule(rule);
+                invalidateMockedQueries(previousRule ? [previousRule, rule] : [rule]);
+                log(`${logPrefix} Set mock rule ${rule.id}`, enableLogs);
+                break;
+              }
+              case "ACTION-MOCK-TOGGLE": {
+                const toggledRule =
+                  ruleId !== undefined
+                    ? queryMocks.toggleRule(ruleId, enabled ?? true)
+                    : undefined;
+                if (!toggledRule) {
+                  respond.failure("mock-rule-not-found", `Mock rule ${ruleId} not found`);
+                  return;
+                }
+                invalidateMockedQueries([toggledRule]);
+                log(
+                  `${logPrefix} ${toggledRule.enabled ? "Enabled" : "Disabled"} mock rule ${ruleId}`,
+                  enableLogs
+                );
+                break;
+              }
+              case "ACTION-MOCK-REMOVE": {
+                const removedRule =
+                  ruleId !== undefined ? queryMocks.removeRule(ruleId) : undefined;
+                if (!removedRule) {
+                  respond.failure("mock-rule-not-found", `Mock rule ${ruleId} not found`);
+                  return;
+                }
+                invalidateMockedQueries([removedRule]);
+                log(`${logPrefix} Removed mock rule ${ruleId}`, enableLogs);
+                break;
+              }
+              case "ACTION-MOCK-CLEAR": {
+                invalidateMockedQueries(queryMocks.clear());
+                log(`${logPrefix} Cleared mock rules`, enableLogs);
+                break;
+              }
+              default: {
+                log(`${logPrefix} Unknown mock action: ${action}`, enableLogs, "warn");
+                respond.failure("unsupported-action", `Unknown mock action: ${action}`);
+                return;
+              }
+            }
+            respond.success();
+          } catch (error) {
+            log(
+              `${logPrefix} Error handling query mock action: ${error}`,
+              enableLogs,
+              "error"
+            );
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+          sendQueryMocks();
+        }
+      );
+
+      queryMocksRequestSubscription = listen(
+        "request-query-mocks",
+        (message: QueryMocksRequestMessage) => {
+          const { targetDeviceId } = message;
+          if (!deviceId) {
+            log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+            return;
+          }
+          // Skip if not targeted at this device
+          if (
+            !shouldProcessMessage({
+              targetDeviceId: targetDeviceId,
+              currentDeviceId: deviceId,
+            })
+          ) {
+            return;
+          }
+          log(`${logPrefix} Dashboard is requesting mock rules`, enableLogs);
+          sendQueryMocks();
+        }
+      );
+
+      // ==========================================================
+      // Subscribe to query and mutation changes of every client
+      // ==========================================================
+      const cacheUnsubscribes = queryClientEntries.flatMap(
+        ([clientId, client]) => [
+          // Sync query changes to the dashboard as deltas
+          client.getQueryCache().subscribe((event) => {
+            deltaTrackers.get(clientId)?.record(event);
+          }),
+          // Stream mutation lifecycle events
+          client.getMutationCache().subscribe((event) => {
+            if (!deviceId) {
+              log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+              return;
+            }
+            getMutationLifecycleEvents(
+              event,
+              getDehydrateContext()
+            ).forEach((lifecycleEvent) => {
+              const mutationMessage: MutationSyncMessage = {
+                type: "mutation-event",
+                clientId,
+                event: lifecycleEvent,
+                persistentDeviceId: deviceId,
+              };
+              emitToDashboard("mutation-sync", mutationMessage);
+            });
+          }),
+        ]
+      );
+
+      unsubscribe = () => {
+        cacheUnsubscribes.forEach((unsubscribeCache) => unsubscribeCache());
+        deltaTrackers.forEach((deltaTracker) => deltaTracker.dispose());
+        unsubscribeQueryHistory?.();
+        unsubscribeQueryMetrics?.();
+      };
+    }
+
+    // ==========================================================
+    // App state - Report focus and AppState changes to the dashboard
+    // ==========================================================
+    const sendAppState = () => {
+      const appStateMessage: AppStateSyncMessage = {
+        type: "app-state",
+        appState: getAppState(),
+        isFocusManagerFocused: focusManager.isFocused(),
+        timestamp: Date.now(),
+        persistentDeviceId: deviceId,
+      };
+      emitToDashboard("app-state-sync", appStateMessage);
+    };
+    sendAppState();
+    const unsubscribeFocusState = focusManager.subscribe(() => sendAppState());
+    const unsubscribeAppState = subscribeToAppState((appState) => {
+      log(`${logPrefix} App state changed: ${appState}`, enableLogs);
+      sendAppState();
+    });
+
+    // ==========================================================
+    // Storage handlers - Process storage actions from the dashboard
+    // ==========================================================
+    const asyncStorageActionSubscription = listen(
+      "async-storage-action",
+      async (message: AsyncStorageActionMessage, ack?: ActionAck) => {
+        const { action, targetDeviceId, key, value, actionId } = message;
+
+        if (!deviceId) {
+          log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
+          return;
+        }
+
+        // Skip if not targeted at this device
+        if (
+          !shouldProcessMessage({
+            targetDeviceId: targetDeviceId,
+            currentDeviceId: deviceId,
+          })
+        ) {
+          return;
+        }
+
+        const respond = createActionResponder({
+          socket: dashboardEmitter,
+          deviceId,
+          event: "async-storage-action",
+          action,
+          actionId,
+          ack,
+        });
+
+        log(
+          `${logPrefix} Received storage action: ${action}${key ? ` for key ${key}` : ''}`,
+          enableLogs
+        );
+
+        // If storage is provided, handle the action directly
+        if (storage) {
+          try {
+            switch (action) {
+              case 'GET_ALL_KEYS':
+                await sendStorageState();
+                break;
+
+              case 'GET_ITEM': {
+                if (!key) {
+                  respond.failure("invalid-message", "No key provided");
+                  return;
+                }
+                const value = await storage.getItem(key);
+                log(`${logPrefix} Got storage item: ${key} = ${value}`, enableLogs);
+                // After getting the item, send the full state back
+                await sendStorageState();
+                // Respond with the (redacted) value of the requested item
+                respond.success(
+                  value === null
+                    ? null
+                    : getTransportCodec().encode(hookRedaction.redactStorageValue(key, value))
+                );
+                return;
+              }
+
+              case 'SET_ITEM':
+                if (!key || value === undefined) {
+                  respond.failure("invalid-message", "No key or value provided");
+                  return;
+                }
+                await storage.setItem(key, getTransportCodec().decode(value) as string);
+                log(`${logPrefix} Set storage item: ${key} = ${value}`, enableLogs);
+                // After setting the item, send the updated state back
+                await sendStorageState();
+                break;
+
+              case 'REMOVE_ITEM':
+                if (!key) {
+                  respond.failure("invalid-message", "No key provided");
+                  return;
+                }
+                await storage.removeItem(key);
+                log(`${logPrefix} Removed storage item: ${key}`, enableLogs);
+                // After removing the item, send the updated state back
+                await sendStorageState();
+                break;
+
+              case 'CLEAR_ALL':
+                await storage.clear();
+                log(`${logPrefix} Cleared all storage items`, enableLogs);
+                // After clearing all items, send the updated state back
+                await sendStorageState();
+                break;
+
+              default:
+                log(`${logPrefix} Unknown storage action: ${action}`, enableLogs, "warn");
+                respond.failure("unsupported-action", `Unknown storage action: ${action}`);
+                return;
+            }
+            respond.success();
           } catch (error) {
             log(`${logPrefix} Error handling storage action: ${error}`, enableLogs, "error");
+            respond.failure(
+              "handler-threw",
+              error instanceof Error ? error.message : String(error)
+            );
           }
         } else {
           // If storage is not provided, emit the event for the app to handle
-          socket.emit("async-storage-action-received", message);
+          emitToDashboard("async-storage-action-received", message);
 
           log(`${logPrefix} Emitted async-storage-action-received event for app to handle`, enableLogs);
+          respond.failure(
+            "storage-not-configured",
+            "No storage passed to the sync hook, the action was forwarded to the app"
+          );
         }
       }
     );
@@ -662,7 +2273,7 @@ export function useSyncQueriesExternal({
     // ==========================================================
     // Handle storage state requests from dashboard
     // ==========================================================
-    const asyncStorageRequestSubscription = socket.on(
+    const asyncStorageRequestSubscription = listen(
       "request-async-storage",
       async (message: AsyncStorageRequestMessage) => {
         const { targetDeviceId } = message;
@@ -689,43 +2300,20 @@ export function useSyncQueriesExternal({
           await sendStorageState();
         } else {
           // If storage is not provided, emit the event for the app to handle
-          socket.emit("request-async-storage-received", { type: "request-async-storage" });
+          emitToDashboard("request-async-storage-received", { type: "request-async-storage" });
 
           log(`${logPrefix} Emitted request-async-storage-received event for app to handle`, enableLogs);
         }
       }
     );
 
-    // ==========================================================
-    // Network Monitoring - Set up interceptors if enabled
-    // ==========================================================
-    if (networkMonitoring) {
-      // Set up fetch interceptor if enabled
-      if (networkMonitoring.fetch) {
-        log(`${logPrefix} Setting up fetch interceptor`, enableLogs);
-        removeFetchInterceptorRef.current = setupFetchInterceptor(socket, deviceId, enableLogs);
-      }
-
-      // Set up XHR interceptor if enabled
-      if (networkMonitoring.xhr) {
-        log(`${logPrefix} Setting up XHR interceptor`, enableLogs);
-        removeXHRInterceptorRef.current = setupXHRInterceptor(socket, deviceId, enableLogs);
-      }
-
-      // Set up WebSocket interceptor if enabled
-      if (networkMonitoring.websocket) {
-        log(`${logPrefix} Setting up WebSocket interceptor`, enableLogs);
-        removeWebSocketInterceptorRef.current = setupWebSocketInterceptor(socket, deviceId, enableLogs);
-      }
-    }
-
     // ==========================================================
     // Network Monitoring - Handle network monitoring actions
     // ==========================================================
-    const networkMonitoringSubscription = socket.on(
+    const networkMonitoringSubscription = listen(
       "network-monitoring-action",
-      (message: NetworkMonitoringActionMessage) => {
-        const { action, targetDeviceId } = message;
+      (message: NetworkMonitoringActionMessage, ack?: ActionAck) => {
+        const { action, targetDeviceId, actionId } = message;
         if (!deviceId) {
           log(`${logPrefix} No persistent device ID found`, enableLogs, "warn");
           return;
@@ -741,53 +2329,76 @@ export function useSyncQueriesExternal({
           return;
         }
 
+        const respond = createActionResponder({
+          socket: dashboardEmitter,
+          deviceId,
+          event: "network-monitoring-action",
+          action,
+          actionId,
+          ack,
+        });
+
         log(
           `${logPrefix} Received network-monitoring action: ${action}`,
           enableLogs
         );
 
-        switch (action) {
-          case "ACTION-ENABLE-NETWORK-MONITORING": {
-            log(`${logPrefix} Enabling network monitoring`, enableLogs);
+        try {
+          switch (action) {
+            case "ACTION-ENABLE-NETWORK-MONITORING": {
+              log(`${logPrefix} Enabling network monitoring`, enableLogs);
 
-            // Set up fetch interceptor if not already set up
-            if (!removeFetchInterceptorRef.current) {
-              removeFetchInterceptorRef.current = setupFetchInterceptor(socket, deviceId, enableLogs);
-            }
+              // Set up fetch interceptor if not already set up
+              if (!removeFetchInterceptorRef.current) {
+                removeFetchInterceptorRef.current = setupFetchInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
+              }
 
-            // Set up XHR interceptor if not already set up
-            if (!removeXHRInterceptorRef.current) {
-              removeXHRInterceptorRef.current = setupXHRInterceptor(socket, deviceId, enableLogs);
-            }
+              // Set up XHR interceptor if not already set up
+              if (!removeXHRInterceptorRef.current) {
+                removeXHRInterceptorRef.current = setupXHRInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
+              }
 
-            // Set up WebSocket interceptor if not already set up
-            if (!removeWebSocketInterceptorRef.current) {
-              removeWebSocketInterceptorRef.current = setupWebSocketInterceptor(socket, deviceId, enableLogs);
+              // Set up WebSocket interceptor if not already set up
+              if (!removeWebSocketInterceptorRef.current) {
+                removeWebSocketInterceptorRef.current = setupWebSocketInterceptor(dashboardEmitter, deviceId, enableLogs, hookRedaction);
+              }
+              break;
             }
-            break;
-          }
-          case "ACTION-DISABLE-NETWORK-MONITORING": {
-            log(`${logPrefix} Disabling network monitoring`, enableLogs);
+            case "ACTION-DISABLE-NETWORK-MONITORING": {
+              log(`${logPrefix} Disabling network monitoring`, enableLogs);
 
-            // Clean up fetch interceptor
-            if (removeFetchInterceptorRef.current) {
-              removeFetchInterceptorRef.current();
-              removeFetchInterceptorRef.current = null;
-            }
+              // Clean up fetch interceptor
+              if (removeFetchInterceptorRef.current) {
+                removeFetchInterceptorRef.current();
+                removeFetchInterceptorRef.current = null;
+              }
 
-            // Clean up XHR interceptor
-            if (removeXHRInterceptorRef.current) {
-              removeXHRInterceptorRef.current();
-              removeXHRInterceptorRef.current = null;
-            }
+              // Clean up XHR interceptor
+              if (removeXHRInterceptorRef.current) {
+                removeXHRInterceptorRef.current();
+                removeXHRInterceptorRef.current = null;
+              }
 
-            // Clean up WebSocket interceptor
-            if (removeWebSocketInterceptorRef.current) {
-              removeWebSocketInterceptorRef.current();
-              removeWebSocketInterceptorRef.current = null;
+              // Clean up WebSocket interceptor
+              if (removeWebSocketInterceptorRef.current) {
+                removeWebSocketInterceptorRef.current();
+                removeWebSocketInterceptorRef.current = null;
+              }
+              break;
+            }
+            default: {
+              log(`${logPrefix} Unknown network monitoring action: ${action}`, enableLogs, "warn");
+              respond.failure("unsupported-action", `Unknown network monitoring action: ${action}`);
+              return;
             }
-            break;
           }
+          respond.success();
+        } catch (error) {
+          log(`${logPrefix} Error handling network monitoring action: ${error}`, enableLogs, "error");
+          respond.failure(
+            "handler-threw",
+            error instanceof Error ? error.message : String(error)
+          );
         }
       }
     );
@@ -795,7 +2406,7 @@ export function useSyncQueriesExternal({
     // ==========================================================
     // Handle network monitoring requests from dashboard
     // ==========================================================
-    const networkRequestSubscription = socket.on(
+    const networkRequestSubscription = listen(
       "request-network-monitoring",
       (message: NetworkRequestMessage) => {
         const { targetDeviceId } = message;
@@ -827,7 +2438,7 @@ export function useSyncQueriesExternal({
     // ==========================================================
     // Handle Expo command actions from the dashboard
     // ==========================================================
-    const expoCommandActionSubscription = socket.on(
+    const expoCommandActionSubscription = listen(
       "expo-command-action",
       async (message: ExpoCommandActionMessage) => {
         const { command, targetDeviceId, commandId } = message;
@@ -861,14 +2472,14 @@ export function useSyncQueriesExternal({
         };
 
         // Execute the command
-        await executeExpoCommand(expoCommand, socket, deviceId, enableLogs);
+        await executeExpoCommand(expoCommand, dashboardEmitter, deviceId, enableLogs);
       }
     );
 
     // ==========================================================
     // Handle Expo DevTools status requests from dashboard
     // ==========================================================
-    const expoDevToolsRequestSubscription = socket.on(
+    const expoDevToolsRequestSubscription = listen(
       "request-expo-devtools-status",
       (message: ExpoDevToolsRequestMessage) => {
         const { targetDeviceId } = message;
@@ -906,7 +2517,7 @@ export function useSyncQueriesExternal({
           persistentDeviceId: deviceId,
         };
 
-        socket.emit('expo-command-result', resultMessage);
+        emitToDashboard('expo-command-result', resultMessage);
       }
     );
 
@@ -915,48 +2526,33 @@ export function useSyncQueriesExternal({
   // ==========================================================
   return () => {
     log(`${logPrefix} Cleaning up event listeners`, enableLogs);
-    queryActionSubscription?.off();
-    initialStateSubscription?.off();
-    onlineManagerSubscription?.off();
-    asyncStorageActionSubscription?.off();
-    asyncStorageRequestSubscription?.off();
-
-    if (networkMonitoringSubscription) {
-      networkMonitoringSubscription.off();
-    }
-
-    if (networkRequestSubscription) {
-      networkRequestSubscription.off();
-    }
-
-    if (expoCommandActionSubscription) {
-      expoCommandActionSubscription.off();
-    }
-
-    if (expoDevToolsRequestSubscription) {
-      expoDevToolsRequestSubscription.off();
-    }
-
-    // Clean up network interceptors
-    if (removeFetchInterceptorRef.current) {
-      removeFetchInterceptorRef.current();
-      removeFetchInterceptorRef.current = null;
-    }
-
-    if (removeXHRInterceptorRef.current) {
-      removeXHRInterceptorRef.current();
-      removeXHRInterceptorRef.current = null;
-    }
-
-    if (removeWebSocketInterceptorRef.current) {
-      removeWebSocketInterceptorRef.current();
-      removeWebSocketInterceptorRef.current = null;
-    }
-
+    queryActionSubscription?.();
+    bulkQueryActionSubscription?.();
+    queryDefaultsActionSubscription?.();
+    queryDefaultsRequestSubscription?.();
+    cacheSnapshotActionSubscription?.();
+    mutationActionSubscription?.();
+    queryHistoryRequestSubscription?.();
+    queryMetricsRequestSubscription?.();
+    queryDataRequestSubscription?.();
+    queryMockActionSubscription?.();
+    queryMocksRequestSubscription?.();
+    initialStateSubscription?.();
+    onlineManagerSubscription?.();
+    focusManagerSubscription?.();
+    asyncStorageActionSubscription();
+    asyncStorageRequestSubscription();
+    networkMonitoringSubscription();
+    networkRequestSubscription();
+    expoCommandActionSubscription();
+    expoDevToolsRequestSubscription();
+
+    unsubscribeFocusState();
+    unsubscribeAppState();
     unsubscribe();
   };
   }, [
-    queryClient,
+    queryClientEntries,
     socket,
     deviceName,
     isConnected,
@@ -972,5 +2568,7 @@ export function useSyncQueriesExternal({
     disconnect,
     isConnected,
     socket,
+    reconnectAttempt,
+    nextReconnectAt,
   };
 }